@@ -0,0 +1,393 @@
+/**
+ * LLM-Governance-Core HTTP Adapters
+ *
+ * Reference HTTP clients for every adapter interface, built from AdapterConfig.
+ * Transport failures (network errors, timeouts, non-2xx responses, malformed bodies)
+ * are mapped into AdapterResponse with success: false rather than thrown.
+ */
+
+import type {
+  AdapterConfig,
+  AdapterResponse,
+  AdapterFactoryRegistry,
+  ICostOpsAdapter,
+  IGovernanceDashboardAdapter,
+  IPolicyEngineAdapter,
+  IAnalyticsHubAdapter,
+  IConfigManagerAdapter,
+  ISchemaRegistryAdapter,
+  CostMetrics,
+  CostForecast,
+  GovernanceEvent,
+  DashboardMetrics,
+  PolicyEvaluationRequest,
+  PolicyEvaluationResult,
+  AnalyticsEvent,
+  AnalyticsQuery,
+  ConfigValue,
+  SchemaDefinition,
+  ValidationResult,
+} from './index';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_WATCH_INTERVAL_MS = 30000;
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// ============================================================================
+// HTTP Transport
+// ============================================================================
+
+/**
+ * Minimal JSON-over-HTTP client shared by all adapters
+ */
+export class HttpTransport {
+  private readonly baseUrl: string;
+
+  constructor(private readonly config: AdapterConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Send a request and normalize the outcome into an AdapterResponse
+   * Response bodies are expected to be the payload itself (or empty for void calls)
+   */
+  async request<T>(method: HttpMethod, path: string, body?: unknown): Promise<AdapterResponse<T>> {
+    const controller = new AbortController();
+    const timeout = this.config.timeout ?? DEFAULT_TIMEOUT_MS;
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      const text = await response.text();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: `HTTP ${response.status} ${response.statusText}${text ? `: ${text.slice(0, 500)}` : ''}`,
+          metadata: { status: response.status },
+        };
+      }
+
+      if (text === '') {
+        return { success: true, metadata: { status: response.status } };
+      }
+
+      try {
+        return { success: true, data: JSON.parse(text) as T, metadata: { status: response.status } };
+      } catch {
+        return { success: false, error: 'Malformed JSON response', metadata: { status: response.status } };
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return { success: false, error: `Request timed out after ${timeout}ms` };
+      }
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function reviveDate(value: unknown): Date {
+  return value instanceof Date ? value : new Date(value as string);
+}
+
+/**
+ * Revive the period bounds of a successful response into Dates
+ * A payload without a valid period is reported as a failed response instead of throwing.
+ */
+function revivePeriod<T extends { period: { start: Date; end: Date } }>(response: AdapterResponse<T>): AdapterResponse<T> {
+  if (!response.success || !response.data) {
+    return response;
+  }
+
+  const period = (response.data as { period?: unknown }).period as { start?: unknown; end?: unknown } | null | undefined;
+  const start = reviveDate(period?.start ?? undefined);
+  const end = reviveDate(period?.end ?? undefined);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return { success: false, error: 'Malformed response: period must have a start and end date', metadata: response.metadata };
+  }
+
+  return { ...response, data: { ...response.data, period: { start, end } } };
+}
+
+// ============================================================================
+// LLM-CostOps
+// ============================================================================
+
+export class HttpCostOpsAdapter implements ICostOpsAdapter {
+  private readonly http: HttpTransport;
+
+  constructor(config: AdapterConfig) {
+    this.http = new HttpTransport(config);
+  }
+
+  reportUsage(metrics: Parameters<ICostOpsAdapter['reportUsage']>[0]): Promise<AdapterResponse<void>> {
+    return this.http.request<void>('POST', '/v1/usage', metrics);
+  }
+
+  async getCostMetrics(filters: Parameters<ICostOpsAdapter['getCostMetrics']>[0]): Promise<AdapterResponse<CostMetrics>> {
+    return revivePeriod(await this.http.request<CostMetrics>('POST', '/v1/costs/query', filters));
+  }
+
+  async getForecast(params: Parameters<ICostOpsAdapter['getForecast']>[0]): Promise<AdapterResponse<CostForecast>> {
+    return revivePeriod(await this.http.request<CostForecast>('POST', '/v1/forecast', params));
+  }
+}
+
+// ============================================================================
+// LLM-Governance-Dashboard
+// ============================================================================
+
+export class HttpGovernanceDashboardAdapter implements IGovernanceDashboardAdapter {
+  private readonly http: HttpTransport;
+
+  constructor(config: AdapterConfig) {
+    this.http = new HttpTransport(config);
+  }
+
+  publishEvent(event: GovernanceEvent): Promise<AdapterResponse<void>> {
+    return this.http.request<void>('POST', '/v1/events', event);
+  }
+
+  publishMetrics(metrics: DashboardMetrics): Promise<AdapterResponse<void>> {
+    return this.http.request<void>('POST', '/v1/metrics', metrics);
+  }
+
+  getHealthStatus(): Promise<AdapterResponse<{ healthy: boolean; details: Record<string, unknown> }>> {
+    return this.http.request('GET', '/v1/health');
+  }
+}
+
+// ============================================================================
+// LLM-Policy-Engine
+// ============================================================================
+
+export class HttpPolicyEngineAdapter implements IPolicyEngineAdapter {
+  private readonly http: HttpTransport;
+
+  constructor(config: AdapterConfig) {
+    this.http = new HttpTransport(config);
+  }
+
+  evaluatePolicy(request: PolicyEvaluationRequest): Promise<AdapterResponse<PolicyEvaluationResult>> {
+    return this.http.request<PolicyEvaluationResult>('POST', '/v1/evaluate', request);
+  }
+
+  validatePolicy(policyDefinition: Record<string, unknown>): Promise<AdapterResponse<{ valid: boolean; errors: string[] }>> {
+    return this.http.request('POST', '/v1/policies/validate', policyDefinition);
+  }
+
+  refreshPolicies(): Promise<AdapterResponse<void>> {
+    return this.http.request<void>('POST', '/v1/policies/refresh');
+  }
+}
+
+// ============================================================================
+// LLM-Analytics-Hub
+// ============================================================================
+
+export class HttpAnalyticsHubAdapter implements IAnalyticsHubAdapter {
+  private readonly http: HttpTransport;
+
+  constructor(config: AdapterConfig) {
+    this.http = new HttpTransport(config);
+  }
+
+  track(event: AnalyticsEvent): Promise<AdapterResponse<void>> {
+    return this.http.request<void>('POST', '/v1/events', event);
+  }
+
+  query(query: AnalyticsQuery): Promise<AdapterResponse<Record<string, unknown>>> {
+    return this.http.request('POST', '/v1/query', query);
+  }
+
+  trackBatch(events: AnalyticsEvent[]): Promise<AdapterResponse<void>> {
+    return this.http.request<void>('POST', '/v1/events/batch', { events });
+  }
+}
+
+// ============================================================================
+// LLM-Config-Manager
+// ============================================================================
+
+/**
+ * Config Manager client
+ * watchConfig is implemented by polling each key and reporting version changes
+ */
+export class HttpConfigManagerAdapter implements IConfigManagerAdapter {
+  private readonly http: HttpTransport;
+  private readonly watches = new Map<string, NodeJS.Timeout>();
+  private nextWatchId = 1;
+
+  constructor(config: AdapterConfig, private readonly watchIntervalMs: number = DEFAULT_WATCH_INTERVAL_MS) {
+    this.http = new HttpTransport(config);
+  }
+
+  async getConfig(key: string): Promise<AdapterResponse<ConfigValue>> {
+    const response = await this.http.request<ConfigValue>('GET', `/v1/config/${encodeURIComponent(key)}`);
+    return response.success && response.data
+      ? { ...response, data: { ...response.data, lastUpdated: reviveDate(response.data.lastUpdated) } }
+      : response;
+  }
+
+  async getSecret(secretName: string): Promise<AdapterResponse<string>> {
+    const response = await this.http.request<{ value: string }>('GET', `/v1/secrets/${encodeURIComponent(secretName)}`);
+    return response.success && response.data
+      ? { ...response, data: response.data.value }
+      : { success: false, error: response.error || 'Secret not found', metadata: response.metadata };
+  }
+
+  /**
+   * Poll watched keys and report version changes
+   * A key ending in "*" watches every key with that prefix, listed with GET /v1/config?prefix=. A watched key that
+   * disappears is reported with `deleted: true`; a failed read skips the poll rather than reporting deletions.
+   */
+  async watchConfig(keys: string[], callback: (changes: ConfigValue[]) => void): Promise<AdapterResponse<{ watchId: string }>> {
+    // Seed current versions so only subsequent changes are reported
+    let versions: Map<string, string>;
+    try {
+      versions = new Map(Array.from(await this.readWatched(keys), ([key, value]) => [key, value.version]));
+    } catch (error) {
+      return { success: false, error: `Failed to watch config: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    const watchId = `watch-${this.nextWatchId++}`;
+    let polling = false;
+
+    const poll = async (): Promise<void> => {
+      const current = await this.readWatched(keys);
+      const changes: ConfigValue[] = [];
+
+      for (const [key, value] of current) {
+        if (versions.get(key) !== value.version) {
+          changes.push(value);
+        }
+      }
+      for (const [key, version] of versions) {
+        if (!current.has(key)) {
+          changes.push({ key, value: undefined, version, lastUpdated: new Date(), deleted: true });
+        }
+      }
+
+      versions = new Map(Array.from(current, ([key, value]) => [key, value.version]));
+      if (changes.length > 0 && this.watches.has(watchId)) {
+        callback(changes);
+      }
+    };
+
+    // A slow poll skips the ticks it overlaps; a failed poll or throwing callback does not stop the watch
+    const timer = setInterval(() => {
+      if (polling) {
+        return;
+      }
+      polling = true;
+      poll().catch(() => undefined).finally(() => {
+        polling = false;
+      });
+    }, this.watchIntervalMs);
+    timer.unref();
+
+    this.watches.set(watchId, timer);
+    return { success: true, data: { watchId } };
+  }
+
+  async unwatchConfig(watchId: string): Promise<AdapterResponse<void>> {
+    const timer = this.watches.get(watchId);
+    if (!timer) {
+      return { success: false, error: `Unknown watch: ${watchId}` };
+    }
+
+    clearInterval(timer);
+    this.watches.delete(watchId);
+    return { success: true };
+  }
+
+  /**
+   * Read the current value of every watched key, expanding prefix watches
+   *
+   * @throws Error if a key cannot be read for any reason other than not existing
+   */
+  private async readWatched(keys: string[]): Promise<Map<string, ConfigValue>> {
+    const current = new Map<string, ConfigValue>();
+
+    for (const key of keys) {
+      if (key.endsWith('*')) {
+        const prefix = key.slice(0, -1);
+        const response = await this.http.request<ConfigValue[]>('GET', `/v1/config?prefix=${encodeURIComponent(prefix)}`);
+        if (!response.success || !Array.isArray(response.data)) {
+          throw new Error(response.error || `Malformed listing for ${key}`);
+        }
+        response.data
+          .filter((value) => value.key.startsWith(prefix))
+          .forEach((value) => current.set(value.key, { ...value, lastUpdated: reviveDate(value.lastUpdated) }));
+        continue;
+      }
+
+      const response = await this.getConfig(key);
+      if (response.success && response.data) {
+        current.set(key, response.data);
+      } else if (response.metadata?.status !== 404) {
+        throw new Error(response.error || `Failed to read ${key}`);
+      }
+    }
+
+    return current;
+  }
+}
+
+// ============================================================================
+// LLM-Schema-Registry
+// ============================================================================
+
+export class HttpSchemaRegistryAdapter implements ISchemaRegistryAdapter {
+  private readonly http: HttpTransport;
+
+  constructor(config: AdapterConfig) {
+    this.http = new HttpTransport(config);
+  }
+
+  getSchema(schemaId: string, version?: string): Promise<AdapterResponse<SchemaDefinition>> {
+    const query = version ? `?version=${encodeURIComponent(version)}` : '';
+    return this.http.request('GET', `/v1/schemas/${encodeURIComponent(schemaId)}${query}`);
+  }
+
+  validate(schemaId: string, data: unknown): Promise<AdapterResponse<ValidationResult>> {
+    return this.http.request('POST', `/v1/schemas/${encodeURIComponent(schemaId)}/validate`, { data });
+  }
+
+  registerSchema(schema: SchemaDefinition): Promise<AdapterResponse<{ schemaId: string; version: string }>> {
+    return this.http.request('POST', '/v1/schemas', schema);
+  }
+}
+
+// ============================================================================
+// Factory Registry
+// ============================================================================
+
+/**
+ * Adapter factories producing the reference HTTP clients
+ */
+export const httpAdapterFactories: AdapterFactoryRegistry = {
+  costOps: (config) => new HttpCostOpsAdapter(config),
+  dashboard: (config) => new HttpGovernanceDashboardAdapter(config),
+  policyEngine: (config) => new HttpPolicyEngineAdapter(config),
+  analyticsHub: (config) => new HttpAnalyticsHubAdapter(config),
+  configManager: (config) => new HttpConfigManagerAdapter(config),
+  schemaRegistry: (config) => new HttpSchemaRegistryAdapter(config),
+};
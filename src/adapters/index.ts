@@ -40,6 +40,15 @@ export interface CostMetrics {
     end: Date;
   };
   breakdown: Record<string, number>;
+
+  /** Metered tokens for the period */
+  tokenUsage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+
+  /** Set when the CostOps backend only meters tokens; totalCost is then meaningless and tokenUsage is priced instead */
+  tokenOnly?: boolean;
 }
 
 export interface CostForecast {
@@ -201,6 +210,9 @@ export interface ConfigValue {
   value: unknown;
   version: string;
   lastUpdated: Date;
+
+  /** Set on watched changes when the key was deleted; value is then undefined and version the last one seen */
+  deleted?: boolean;
 }
 
 export interface IConfigManagerAdapter {
@@ -216,6 +228,7 @@ export interface IConfigManagerAdapter {
 
   /**
    * Watch for configuration changes
+   * A key ending in "*" watches every key that starts with the text before it, including keys created later.
    */
   watchConfig(keys: string[], callback: (changes: ConfigValue[]) => void): Promise<AdapterResponse<{ watchId: string }>>;
 
@@ -294,3 +307,25 @@ export interface AdapterFactoryRegistry {
   configManager: AdapterFactory<IConfigManagerAdapter>;
   schemaRegistry: AdapterFactory<ISchemaRegistryAdapter>;
 }
+
+/**
+ * Per-adapter configuration, keyed like AdapterCollection
+ */
+export type AdapterConfigMap = Record<keyof AdapterCollection, AdapterConfig>;
+
+/**
+ * Build a full AdapterCollection from a factory registry and per-adapter configuration
+ */
+export function createAdapterCollection(
+  registry: AdapterFactoryRegistry,
+  configs: AdapterConfigMap
+): AdapterCollection {
+  return {
+    costOps: registry.costOps(configs.costOps),
+    dashboard: registry.dashboard(configs.dashboard),
+    policyEngine: registry.policyEngine(configs.policyEngine),
+    analyticsHub: registry.analyticsHub(configs.analyticsHub),
+    configManager: registry.configManager(configs.configManager),
+    schemaRegistry: registry.schemaRegistry(configs.schemaRegistry),
+  };
+}
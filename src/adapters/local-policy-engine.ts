@@ -0,0 +1,412 @@
+/**
+ * LLM-Governance-Core Local Policy Engine
+ *
+ * In-process IPolicyEngineAdapter that evaluates declarative JSON/YAML policies,
+ * for edge deployments and tests that cannot reach a remote Policy Engine.
+ *
+ * Rules match on principal, action and resource globs plus optional conditions over
+ * the request context. Combining is deny-overrides: any matching deny rule denies,
+ * otherwise any matching allow rule allows, otherwise the request is denied.
+ * An allow that comes from a rule with `requireApproval` still needs human sign-off, and allow rules
+ * can attach obligations the caller must enforce.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+import { matchesAnyGlob, matchesGlob } from '../glob';
+import { parseObligations } from '../obligations';
+import type { Obligation, ObligationType } from '../types';
+import type {
+  AdapterResponse,
+  IPolicyEngineAdapter,
+  PolicyEvaluationRequest,
+  PolicyEvaluationResult,
+} from './index';
+
+// ============================================================================
+// Policy Language
+// ============================================================================
+
+export type PolicyEffect = 'allow' | 'deny';
+
+export type ConditionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'in'
+  | 'notIn'
+  | 'greaterThan'
+  | 'greaterThanOrEqual'
+  | 'lessThan'
+  | 'lessThanOrEqual'
+  | 'exists'
+  | 'matches';
+
+export interface PolicyCondition {
+  /** Dot-separated path into the request context (e.g. "environment", "usage.tokens") */
+  field: string;
+
+  operator: ConditionOperator;
+
+  /** Comparison value; a list for in/notIn, a boolean for exists, a glob for matches */
+  value?: unknown;
+}
+
+/**
+ * Obligation as written in a policy; ids default to `<type>-<n>` and are prefixed with the policy and rule ids
+ */
+export type PolicyObligation = {
+  [T in ObligationType]: Omit<Extract<Obligation, { type: T }>, 'obligationId' | 'policyId'> & { obligationId?: string };
+}[ObligationType];
+
+export interface PolicyRule {
+  id: string;
+  effect: PolicyEffect;
+
+  /** Principal globs (defaults to any) */
+  principals?: string[];
+
+  /** Action globs, e.g. "llm:*" (defaults to any) */
+  actions?: string[];
+
+  /** Resource globs, e.g. "model:gpt-*" (defaults to any) */
+  resources?: string[];
+
+  /** All conditions must hold for the rule to match */
+  conditions?: PolicyCondition[];
+
+  /** Human-readable reason reported when the rule matches */
+  reason?: string;
+
+  /** Allow only after human sign-off; reported as `conditions.requireApproval` */
+  requireApproval?: boolean;
+
+  /** Obligations attached to requests this allow rule decides; reported as `conditions.obligations` */
+  obligations?: PolicyObligation[];
+}
+
+export interface PolicyDocument {
+  id: string;
+  description?: string;
+  rules: PolicyRule[];
+}
+
+export interface LocalPolicyEngineOptions {
+  /** Directory of *.json, *.yaml and *.yml policy documents loaded by refreshPolicies() */
+  policyDir?: string;
+
+  /** Policies to start with (replaced on refresh when policyDir is set) */
+  policies?: PolicyDocument[];
+}
+
+const EFFECTS: PolicyEffect[] = ['allow', 'deny'];
+const OPERATORS: ConditionOperator[] = [
+  'equals', 'notEquals', 'in', 'notIn', 'greaterThan', 'greaterThanOrEqual',
+  'lessThan', 'lessThanOrEqual', 'exists', 'matches',
+];
+const POLICY_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function validateGlobList(value: unknown, at: string, errors: string[]): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || item === '')) {
+    errors.push(`${at} must be an array of non-empty strings`);
+  }
+}
+
+/**
+ * Validate a policy document, returning a list of human-readable errors
+ */
+export function validatePolicyDocument(definition: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+    return ['policy must be an object'];
+  }
+
+  const doc = definition as Record<string, unknown>;
+
+  if (typeof doc.id !== 'string' || doc.id.trim() === '') {
+    errors.push('id must be a non-empty string');
+  }
+
+  if (!Array.isArray(doc.rules)) {
+    errors.push('rules must be an array');
+    return errors;
+  }
+
+  const ruleIds = new Set<string>();
+
+  doc.rules.forEach((candidate, index) => {
+    const at = `rules[${index}]`;
+
+    if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+
+    const rule = candidate as Record<string, unknown>;
+
+    if (typeof rule.id !== 'string' || rule.id.trim() === '') {
+      errors.push(`${at}.id must be a non-empty string`);
+    } else if (ruleIds.has(rule.id)) {
+      errors.push(`${at}.id "${rule.id}" is duplicated`);
+    } else {
+      ruleIds.add(rule.id);
+    }
+
+    if (!EFFECTS.includes(rule.effect as PolicyEffect)) {
+      errors.push(`${at}.effect must be "allow" or "deny"`);
+    }
+
+    validateGlobList(rule.principals, `${at}.principals`, errors);
+    validateGlobList(rule.actions, `${at}.actions`, errors);
+    validateGlobList(rule.resources, `${at}.resources`, errors);
+
+    if (rule.reason !== undefined && typeof rule.reason !== 'string') {
+      errors.push(`${at}.reason must be a string`);
+    }
+
+    if (rule.requireApproval !== undefined && (typeof rule.requireApproval !== 'boolean' || rule.effect !== 'allow')) {
+      errors.push(`${at}.requireApproval must be a boolean on an allow rule`);
+    }
+
+    if (rule.obligations !== undefined) {
+      if (rule.effect !== 'allow') {
+        errors.push(`${at}.obligations are only allowed on allow rules`);
+      } else {
+        try {
+          parseObligations(rule.obligations, `${at}.obligations`);
+        } catch (error) {
+          errors.push((error as Error).message);
+        }
+      }
+    }
+
+    if (rule.conditions === undefined) {
+      return;
+    }
+
+    if (!Array.isArray(rule.conditions)) {
+      errors.push(`${at}.conditions must be an array`);
+      return;
+    }
+
+    rule.conditions.forEach((condition, conditionIndex) => {
+      const cat = `${at}.conditions[${conditionIndex}]`;
+      const cond = (condition || {}) as Record<string, unknown>;
+
+      if (typeof cond.field !== 'string' || cond.field.trim() === '') {
+        errors.push(`${cat}.field must be a non-empty string`);
+      }
+      if (!OPERATORS.includes(cond.operator as ConditionOperator)) {
+        errors.push(`${cat}.operator must be one of ${OPERATORS.join(', ')}`);
+      } else if ((cond.operator === 'in' || cond.operator === 'notIn') && !Array.isArray(cond.value)) {
+        errors.push(`${cat}.value must be an array for ${cond.operator}`);
+      } else if (cond.operator === 'matches' && typeof cond.value !== 'string') {
+        errors.push(`${cat}.value must be a string for matches`);
+      }
+    });
+  });
+
+  return errors;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function resolveField(context: Record<string, unknown>, field: string): unknown {
+  return field.split('.').reduce<unknown>((current, segment) => {
+    if (current && typeof current === 'object' && !Array.isArray(current)) {
+      return (current as Record<string, unknown>)[segment];
+    }
+    return undefined;
+  }, context);
+}
+
+function evaluateCondition(condition: PolicyCondition, context: Record<string, unknown>): boolean {
+  const actual = resolveField(context, condition.field);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'exists':
+      return (actual !== undefined) === (expected !== false);
+    case 'equals':
+      return actual === expected;
+    case 'notEquals':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'notIn':
+      return Array.isArray(expected) && !expected.includes(actual);
+    case 'matches':
+      return typeof actual === 'string' && typeof expected === 'string' && matchesGlob(expected, actual);
+    case 'greaterThan':
+      return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+    case 'greaterThanOrEqual':
+      return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+    case 'lessThan':
+      return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+    case 'lessThanOrEqual':
+      return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+    default:
+      return false;
+  }
+}
+
+function ruleMatches(rule: PolicyRule, request: PolicyEvaluationRequest): boolean {
+  return matchesAnyGlob(rule.principals ?? ['*'], request.principal)
+    && matchesAnyGlob(rule.actions ?? ['*'], request.action)
+    && matchesAnyGlob(rule.resources ?? ['*'], request.resource)
+    && (rule.conditions ?? []).every((condition) => evaluateCondition(condition, request.context));
+}
+
+/**
+ * Evaluate a request against a set of policies with deny-overrides combining
+ */
+export function evaluatePolicies(policies: PolicyDocument[], request: PolicyEvaluationRequest): PolicyEvaluationResult {
+  const denies: Array<{ policy: PolicyDocument; rule: PolicyRule }> = [];
+  const allows: Array<{ policy: PolicyDocument; rule: PolicyRule }> = [];
+
+  for (const policy of policies) {
+    for (const rule of policy.rules) {
+      if (ruleMatches(rule, request)) {
+        (rule.effect === 'deny' ? denies : allows).push({ policy, rule });
+      }
+    }
+  }
+
+  const deciding = denies.length > 0 ? denies : allows;
+
+  if (deciding.length === 0) {
+    return {
+      allowed: false,
+      reasons: ['No matching allow rule'],
+      appliedPolicies: [],
+    };
+  }
+
+  const conditions: Record<string, unknown> = {};
+  if (deciding.some(({ rule }) => rule.requireApproval)) {
+    conditions.requireApproval = true;
+  }
+
+  // Ids are prefixed with the rule so obligations from different rules cannot collide
+  const obligations = deciding.flatMap(({ policy, rule }) => (rule.obligations ?? []).map((obligation, index) => ({
+    ...obligation,
+    obligationId: `${policy.id}/${rule.id}/${obligation.obligationId ?? `${obligation.type}-${index + 1}`}`,
+    policyId: policy.id,
+  })));
+  if (denies.length === 0 && obligations.length > 0) {
+    conditions.obligations = obligations;
+  }
+
+  return {
+    allowed: denies.length === 0,
+    reasons: deciding.map(({ policy, rule }) => rule.reason || `${rule.effect === 'deny' ? 'Denied' : 'Allowed'} by ${policy.id}/${rule.id}`),
+    appliedPolicies: Array.from(new Set(deciding.map(({ policy }) => policy.id))),
+    ...(Object.keys(conditions).length > 0 ? { conditions } : {}),
+  };
+}
+
+/**
+ * Parse a JSON or YAML policy file based on its extension
+ */
+export function parsePolicyFile(fileName: string, content: string): unknown {
+  return path.extname(fileName).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+}
+
+// ============================================================================
+// Adapter
+// ============================================================================
+
+export class LocalPolicyEngineAdapter implements IPolicyEngineAdapter {
+  private policies: PolicyDocument[];
+  private loaded: boolean;
+
+  constructor(private readonly options: LocalPolicyEngineOptions = {}) {
+    this.policies = options.policies ?? [];
+    this.loaded = !options.policyDir;
+  }
+
+  async evaluatePolicy(request: PolicyEvaluationRequest): Promise<AdapterResponse<PolicyEvaluationResult>> {
+    if (!this.loaded) {
+      const refresh = await this.refreshPolicies();
+      if (!refresh.success) {
+        return { success: false, error: refresh.error };
+      }
+    }
+
+    return { success: true, data: evaluatePolicies(this.policies, request) };
+  }
+
+  async validatePolicy(policyDefinition: Record<string, unknown>): Promise<AdapterResponse<{ valid: boolean; errors: string[] }>> {
+    const errors = validatePolicyDocument(policyDefinition);
+    return { success: true, data: { valid: errors.length === 0, errors } };
+  }
+
+  /**
+   * Reload every policy file from policyDir
+   * The active policy set is only replaced when all files parse and validate.
+   */
+  async refreshPolicies(): Promise<AdapterResponse<void>> {
+    const policyDir = this.options.policyDir;
+    if (!policyDir) {
+      return { success: true };
+    }
+
+    try {
+      const files = (await fs.readdir(policyDir))
+        .filter((file) => POLICY_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+        .sort();
+
+      const policies: PolicyDocument[] = [];
+      const errors: string[] = [];
+      const ids = new Set<string>();
+
+      for (const file of files) {
+        const content = await fs.readFile(path.join(policyDir, file), 'utf8');
+        let definition: unknown;
+
+        try {
+          definition = parsePolicyFile(file, content);
+        } catch (error) {
+          errors.push(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+          continue;
+        }
+
+        const fileErrors = validatePolicyDocument(definition);
+        if (fileErrors.length > 0) {
+          errors.push(...fileErrors.map((message) => `${file}: ${message}`));
+          continue;
+        }
+
+        const policy = definition as PolicyDocument;
+        if (ids.has(policy.id)) {
+          errors.push(`${file}: policy id "${policy.id}" is duplicated`);
+          continue;
+        }
+
+        ids.add(policy.id);
+        policies.push(policy);
+      }
+
+      if (errors.length > 0) {
+        return { success: false, error: `Invalid policies: ${errors.join('; ')}` };
+      }
+
+      this.policies = policies;
+      this.loaded = true;
+      return { success: true, metadata: { policyCount: policies.length } };
+    } catch (error) {
+      return { success: false, error: `Failed to load policies: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+}
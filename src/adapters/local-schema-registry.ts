@@ -0,0 +1,235 @@
+/**
+ * LLM-Governance-Core Local Schema Registry
+ *
+ * In-process ISchemaRegistryAdapter backed by versioned JSON Schema files,
+ * for edge deployments and tests that cannot reach a remote Schema Registry.
+ *
+ * Schemas live at <schemaDir>/<schemaId>/<version>.json. The built-in governance schemas are always
+ * available; a file with the same ID and version replaces the built-in one.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+import { canonicalJson } from '../canonical';
+import { builtinSchemas } from '../schemas';
+import { checkJsonSchema, validateJsonSchema } from '../schemas/validator';
+import type { AdapterResponse, ISchemaRegistryAdapter, SchemaDefinition, ValidationResult } from './index';
+
+export interface LocalSchemaRegistryOptions {
+  /** Directory of versioned schemas, read on first use; registerSchema writes new versions here */
+  schemaDir?: string;
+
+  /** Serve the built-in governance schemas (default true) */
+  builtins?: boolean;
+}
+
+/** IDs and versions become file names, so they are limited to characters safe in paths */
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Order versions segment by segment, numerically where both segments are numbers ("1.10.0" > "1.9.2")
+ */
+export function compareSchemaVersions(left: string, right: string): number {
+  const leftParts = left.split('.');
+  const rightParts = right.split('.');
+
+  for (let index = 0; index < Math.max(leftParts.length, rightParts.length); index++) {
+    const a = leftParts[index] ?? '';
+    const b = rightParts[index] ?? '';
+    const difference = /^\d+$/.test(a) && /^\d+$/.test(b) ? Number(a) - Number(b) : a.localeCompare(b);
+    if (difference !== 0) {
+      return Math.sign(difference);
+    }
+  }
+  return 0;
+}
+
+/**
+ * Validate a schema definition before it is registered, returning a list of human-readable errors
+ */
+export function validateSchemaDefinition(definition: unknown): string[] {
+  if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+    return ['definition must be an object'];
+  }
+
+  const candidate = definition as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const field of ['schemaId', 'version']) {
+    if (typeof candidate[field] !== 'string' || !NAME_PATTERN.test(candidate[field] as string)) {
+      errors.push(`${field} must start with a letter or digit and contain only letters, digits, ".", "_" and "-"`);
+    }
+  }
+  if (candidate.format !== 'json-schema') {
+    errors.push('format must be "json-schema" (the local registry does not support protobuf or avro)');
+  }
+  errors.push(...checkJsonSchema(candidate.schema).map((error) => `schema${error.path}: ${error.message}`));
+
+  return errors;
+}
+
+/**
+ * ISchemaRegistryAdapter that validates in-process against versioned schemas on disk
+ * Unversioned lookups and validation use the highest registered version of a schema.
+ */
+export class LocalSchemaRegistryAdapter implements ISchemaRegistryAdapter {
+  private schemas = new Map<string, Map<string, SchemaDefinition>>();
+  private loading?: Promise<void>;
+
+  constructor(private readonly options: LocalSchemaRegistryOptions = {}) {}
+
+  async getSchema(schemaId: string, version?: string): Promise<AdapterResponse<SchemaDefinition>> {
+    const found = await this.resolve(schemaId, version);
+    return 'error' in found ? { success: false, error: found.error } : { success: true, data: structuredClone(found.definition) };
+  }
+
+  /**
+   * Validate data against the latest version of a schema
+   * Data is checked as it would be sent over the wire, so Date values are validated as ISO strings.
+   */
+  async validate(schemaId: string, data: unknown): Promise<AdapterResponse<ValidationResult>> {
+    const found = await this.resolve(schemaId);
+    if ('error' in found) {
+      return { success: false, error: found.error };
+    }
+
+    const { definition } = found;
+    const serialized = data === undefined ? undefined : JSON.parse(JSON.stringify(data));
+    const errors = validateJsonSchema(definition.schema, serialized);
+
+    return {
+      success: true,
+      data: { valid: errors.length === 0, errors },
+      metadata: { schemaId: definition.schemaId, version: definition.version },
+    };
+  }
+
+  /**
+   * Register a new schema version, writing it to schemaDir when one is configured
+   * Registered versions are immutable: registering the same content again succeeds, different content fails.
+   */
+  async registerSchema(schema: SchemaDefinition): Promise<AdapterResponse<{ schemaId: string; version: string }>> {
+    const errors = validateSchemaDefinition(schema);
+    if (errors.length > 0) {
+      return { success: false, error: `Invalid schema: ${errors.join('; ')}` };
+    }
+
+    try {
+      await this.load();
+
+      const { schemaId, version } = schema;
+      const existing = this.schemas.get(schemaId)?.get(version);
+      if (existing) {
+        return canonicalJson(existing.schema) === canonicalJson(schema.schema)
+          ? { success: true, data: { schemaId, version } }
+          : { success: false, error: `Schema ${schemaId} version ${version} is already registered with different content` };
+      }
+
+      if (this.options.schemaDir) {
+        const directory = path.join(this.options.schemaDir, schemaId);
+        const filePath = path.join(directory, `${version}.json`);
+        const temporary = `${filePath}.${process.pid}.tmp`;
+
+        await fs.mkdir(directory, { recursive: true });
+        await fs.writeFile(temporary, `${JSON.stringify(schema.schema, null, 2)}\n`, 'utf8');
+        await fs.rename(temporary, filePath);
+      }
+
+      this.add({ schemaId, version, schema: structuredClone(schema.schema), format: 'json-schema' });
+      return { success: true, data: { schemaId, version } };
+    } catch (error) {
+      return { success: false, error: `Failed to register schema: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
+  private async resolve(schemaId: string, version?: string): Promise<{ definition: SchemaDefinition } | { error: string }> {
+    try {
+      await this.load();
+    } catch (error) {
+      return { error: `Failed to load schemas: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    const versions = this.schemas.get(schemaId);
+    const definition = version !== undefined
+      ? versions?.get(version)
+      : Array.from(versions?.values() ?? []).sort((a, b) => compareSchemaVersions(b.version, a.version))[0];
+
+    return definition ? { definition } : { error: `Schema not found: ${schemaId}${version !== undefined ? ` version ${version}` : ''}` };
+  }
+
+  private add(definition: SchemaDefinition): void {
+    let versions = this.schemas.get(definition.schemaId);
+    if (!versions) {
+      versions = new Map();
+      this.schemas.set(definition.schemaId, versions);
+    }
+    versions.set(definition.version, definition);
+  }
+
+  /**
+   * Load the built-in schemas and every schema file on first use; a failed load is retried on the next call
+   */
+  private load(): Promise<void> {
+    this.loading ??= this.readSchemas().catch((error) => {
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  /**
+   * @throws Error if a schema file is not valid JSON or not a usable schema
+   */
+  private async readSchemas(): Promise<void> {
+    if (this.options.builtins !== false) {
+      builtinSchemas().forEach((definition) => this.add(definition));
+    }
+
+    const schemaDir = this.options.schemaDir;
+    if (!schemaDir) {
+      return;
+    }
+
+    let schemaIds: string[];
+    try {
+      schemaIds = (await fs.readdir(schemaDir, { withFileTypes: true }))
+        .filter((entry) => entry.isDirectory() && NAME_PATTERN.test(entry.name))
+        .map((entry) => entry.name)
+        .sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const errors: string[] = [];
+    for (const schemaId of schemaIds) {
+      const files = (await fs.readdir(path.join(schemaDir, schemaId))).filter((file) => file.endsWith('.json')).sort();
+
+      for (const file of files) {
+        const at = `${schemaId}/${file}`;
+        let schema: unknown;
+        try {
+          schema = JSON.parse(await fs.readFile(path.join(schemaDir, schemaId, file), 'utf8'));
+        } catch (error) {
+          errors.push(`${at}: ${error instanceof Error ? error.message : String(error)}`);
+          continue;
+        }
+
+        const definition = { schemaId, version: path.basename(file, '.json'), schema, format: 'json-schema' };
+        const fileErrors = validateSchemaDefinition(definition);
+        if (fileErrors.length > 0) {
+          errors.push(...fileErrors.map((message) => `${at}: ${message}`));
+          continue;
+        }
+        this.add(definition as SchemaDefinition);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid schemas: ${errors.join('; ')}`);
+    }
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * LLM-Governance-Core Adapter Resilience
+ *
+ * Opt-in decorator that adds per-call timeouts, retries with exponential backoff and jitter,
+ * and a circuit breaker to any adapter. GovernanceCore itself stays free of retry logic;
+ * callers wrap their AdapterCollection before handing it over.
+ */
+
+import type {
+  AdapterCollection,
+  AdapterResponse,
+  RetryPolicy,
+} from './index';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the circuit opens */
+  failureThreshold: number;
+
+  /** Time the circuit stays open before allowing a trial call */
+  resetTimeoutMs: number;
+}
+
+export interface ResilienceOptions {
+  /** Per-call timeout in milliseconds */
+  timeout?: number;
+
+  /** Retry policy applied to idempotent methods only */
+  retryPolicy?: RetryPolicy;
+
+  /** Circuit breaker applied to every method */
+  circuitBreaker?: CircuitBreakerOptions;
+
+  /** Method names that are safe to retry (defaults to read-only adapter methods) */
+  idempotentMethods?: string[];
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Read-only adapter methods that may be retried safely
+ * Write paths such as publishEvent, track and reportUsage are never retried.
+ */
+export const DEFAULT_IDEMPOTENT_METHODS: readonly string[] = [
+  'getConfig',
+  'getSecret',
+  'getCostMetrics',
+  'getForecast',
+  'evaluatePolicy',
+  'validatePolicy',
+  'getSchema',
+  'validate',
+  'query',
+  'getHealthStatus',
+];
+
+// ============================================================================
+// Circuit Breaker
+// ============================================================================
+
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private currentState: CircuitState = 'closed';
+  private trialInFlight = false;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  get state(): CircuitState {
+    if (this.currentState === 'open' && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.currentState = 'half-open';
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Whether a call may proceed; half-open admits a single trial call and rejects others until it settles
+   */
+  canRequest(): boolean {
+    const state = this.state;
+    if (state === 'half-open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+    return state !== 'open';
+  }
+
+  recordSuccess(): void {
+    this.trialInFlight = false;
+    this.failures = 0;
+    this.currentState = 'closed';
+  }
+
+  recordFailure(): void {
+    this.trialInFlight = false;
+    this.failures++;
+    if (this.currentState === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.currentState = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether a failed response is worth retrying
+ * Responses carrying a 4xx status (other than 429) are treated as definitive answers.
+ */
+function isTransientFailure(response: AdapterResponse<unknown>): boolean {
+  if (response.success) {
+    return false;
+  }
+
+  const status = response.metadata?.status;
+  return typeof status !== 'number' || status >= 500 || status === 429;
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const base = policy.backoffMs * Math.pow(2, attempt);
+  // Equal jitter: half fixed, half random, to spread out synchronized retries
+  return base / 2 + Math.random() * (base / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function callWithTimeout<T>(
+  call: () => Promise<AdapterResponse<T>>,
+  timeout: number | undefined,
+  label: string
+): Promise<AdapterResponse<T>> {
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const pending = Promise.resolve().then(call);
+    if (!timeout) {
+      return await pending;
+    }
+
+    const timedOut = new Promise<AdapterResponse<T>>((resolve) => {
+      timer = setTimeout(() => resolve({ success: false, error: `${label} timed out after ${timeout}ms` }), timeout);
+    });
+
+    return await Promise.race([pending, timedOut]);
+  } catch (error) {
+    return { success: false, error: `${label} failed: ${error instanceof Error ? error.message : String(error)}` };
+  } finally {
+    if (timer) {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// ============================================================================
+// Decorators
+// ============================================================================
+
+/**
+ * Wrap an adapter so every AdapterResponse-returning method honors the given options
+ * Thrown errors and timeouts are mapped into AdapterResponse with success: false.
+ *
+ * @param adapter - Adapter instance to decorate
+ * @param options - Timeout, retry and circuit breaker settings (AdapterConfig is accepted as-is)
+ * @param name - Label used in error messages
+ */
+export function withResilience<T extends object>(adapter: T, options: ResilienceOptions, name = 'adapter'): T {
+  const breaker = options.circuitBreaker ? new CircuitBreaker(options.circuitBreaker) : undefined;
+  const idempotent = new Set(options.idempotentMethods ?? DEFAULT_IDEMPOTENT_METHODS);
+
+  return new Proxy(adapter, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string') {
+        return value;
+      }
+
+      const label = `${name}.${property}`;
+      const maxRetries = idempotent.has(property) ? options.retryPolicy?.maxRetries ?? 0 : 0;
+
+      return async (...args: unknown[]): Promise<AdapterResponse<unknown>> => {
+        let response: AdapterResponse<unknown> = { success: false, error: `${label} was not attempted` };
+
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+          if (breaker && !breaker.canRequest()) {
+            return { success: false, error: `${label} rejected: circuit open`, metadata: { circuit: 'open' } };
+          }
+
+          if (attempt > 0) {
+            await sleep(backoffDelay(options.retryPolicy!, attempt - 1));
+          }
+
+          response = await callWithTimeout(() => value.apply(target, args), options.timeout, label);
+
+          if (!isTransientFailure(response)) {
+            breaker?.recordSuccess();
+            return response;
+          }
+
+          breaker?.recordFailure();
+        }
+
+        return maxRetries > 0
+          ? { ...response, metadata: { ...response.metadata, attempts: maxRetries + 1 } }
+          : response;
+      };
+    },
+  });
+}
+
+/**
+ * Decorate each adapter in a collection with its own resilience settings
+ * Adapters without an entry are returned unchanged. An AdapterConfigMap can be passed directly.
+ */
+export function withResilientAdapters(
+  adapters: AdapterCollection,
+  options: Partial<Record<keyof AdapterCollection, ResilienceOptions>>
+): AdapterCollection {
+  const wrap = <K extends keyof AdapterCollection>(key: K): AdapterCollection[K] => {
+    const adapterOptions = options[key];
+    return adapterOptions ? withResilience(adapters[key], adapterOptions, key) : adapters[key];
+  };
+
+  return {
+    costOps: wrap('costOps'),
+    dashboard: wrap('dashboard'),
+    policyEngine: wrap('policyEngine'),
+    analyticsHub: wrap('analyticsHub'),
+    configManager: wrap('configManager'),
+    schemaRegistry: wrap('schemaRegistry'),
+  };
+}
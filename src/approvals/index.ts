@@ -0,0 +1,100 @@
+/**
+ * LLM-Governance-Core Approvals
+ *
+ * Ticket storage and approver lookup for requests that need human sign-off.
+ * Approver roles are stored in Config Manager; tickets live in an ApprovalStore so gateways can share them.
+ */
+
+import type { ApprovalTicket } from '../types';
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/**
+ * Storage for approval tickets
+ * Implementations backed by shared state let an approval granted on one instance apply on all of them.
+ */
+export interface ApprovalStore {
+  get(ticketId: string): Promise<ApprovalTicket | undefined>;
+
+  /**
+   * Ticket created for a governance request, if any
+   */
+  findByRequestId(requestId: string): Promise<ApprovalTicket | undefined>;
+
+  /**
+   * Create or replace a ticket
+   */
+  save(ticket: ApprovalTicket): Promise<void>;
+
+  /**
+   * Tickets still awaiting a decision, including ones past their expiry
+   */
+  listPending(): Promise<ApprovalTicket[]>;
+}
+
+/**
+ * Process-local ApprovalStore; tickets are kept until the process exits
+ */
+export class InMemoryApprovalStore implements ApprovalStore {
+  private tickets = new Map<string, ApprovalTicket>();
+  private byRequestId = new Map<string, string>();
+
+  async get(ticketId: string): Promise<ApprovalTicket | undefined> {
+    const ticket = this.tickets.get(ticketId);
+    return ticket ? { ...ticket } : undefined;
+  }
+
+  async findByRequestId(requestId: string): Promise<ApprovalTicket | undefined> {
+    const ticketId = this.byRequestId.get(requestId);
+    return ticketId ? this.get(ticketId) : undefined;
+  }
+
+  async save(ticket: ApprovalTicket): Promise<void> {
+    this.tickets.set(ticket.ticketId, { ...ticket });
+    this.byRequestId.set(ticket.requestId, ticket.ticketId);
+  }
+
+  async listPending(): Promise<ApprovalTicket[]> {
+    return Array.from(this.tickets.values())
+      .filter((ticket) => ticket.status === 'pending')
+      .map((ticket) => ({ ...ticket }));
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Config Manager key holding the approver roles for an action
+ */
+export function approverConfigKey(action: string): string {
+  return `rbac.approvers.${action}`;
+}
+
+/**
+ * Validate an approver config value, either a list of roles or an object with a `roles` list
+ *
+ * @throws Error if the value is not a list of non-empty role names
+ */
+export function parseApproverRoles(value: unknown, key: string): string[] {
+  const roles = Array.isArray(value) ? value : (value as { roles?: unknown } | undefined)?.roles;
+
+  if (!Array.isArray(roles) || roles.some((role) => typeof role !== 'string' || role.trim() === '')) {
+    throw new Error(`Invalid approvers ${key}: expected a list of role names`);
+  }
+
+  return roles as string[];
+}
+
+/**
+ * Whether a pending ticket has passed its expiry, or an approved ticket has stopped applying
+ */
+export function isApprovalExpired(ticket: ApprovalTicket, now: Date = new Date()): boolean {
+  if (ticket.status === 'approved') {
+    return ticket.approvedUntil !== undefined && Date.parse(ticket.approvedUntil) <= now.getTime();
+  }
+  return ticket.status === 'pending' && Date.parse(ticket.expiresAt) <= now.getTime();
+}
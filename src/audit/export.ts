@@ -0,0 +1,252 @@
+/**
+ * LLM-Governance-Core Audit Export
+ *
+ * Converts stored audit entries into formats SIEMs ingest: OCSF API Activity events (JSON Lines),
+ * ArcSight CEF and flat CSV. Exports are produced line by line, so they can be streamed.
+ */
+
+import type { AuditEntry, AuditFilters } from '../types';
+import { VERSION } from '../version';
+import { selectAuditEntries } from './index';
+import type { AuditStore } from './index';
+import { auditRequestId } from './query';
+
+export type AuditExportFormat = 'ocsf' | 'cef' | 'csv';
+
+export const AUDIT_EXPORT_FORMATS: AuditExportFormat[] = ['ocsf', 'cef', 'csv'];
+
+const PRODUCT_NAME = 'LLM-Governance-Core';
+const OCSF_VERSION = '1.1.0';
+const OCSF_API_ACTIVITY = { categoryUid: 6, classUid: 6003 };
+
+/** Outcomes that report a granted or completed action */
+const SUCCESS_OUTCOMES = ['allowed', 'approved', 'applied', 'fulfilled'];
+
+/** Outcomes that report a refused or failed action */
+const FAILURE_OUTCOMES = ['denied', 'rejected', 'unfulfilled'];
+
+export const AUDIT_CSV_COLUMNS = [
+  'auditId',
+  'sequence',
+  'recordedAt',
+  'timestamp',
+  'principal',
+  'action',
+  'resource',
+  'outcome',
+  'requestId',
+  'policies',
+  'reasons',
+  'metadata',
+];
+
+/**
+ * Validate an export format name
+ *
+ * @throws Error if the format is not one of AUDIT_EXPORT_FORMATS
+ */
+export function parseAuditExportFormat(value: unknown): AuditExportFormat {
+  if (!AUDIT_EXPORT_FORMATS.includes(value as AuditExportFormat)) {
+    throw new Error(`Invalid audit export format "${String(value)}": expected one of ${AUDIT_EXPORT_FORMATS.join(', ')}`);
+  }
+  return value as AuditExportFormat;
+}
+
+// ============================================================================
+// Field Mapping
+// ============================================================================
+
+type OutcomeStatus = 'success' | 'failure' | 'other';
+
+function outcomeStatus(outcome: string): OutcomeStatus {
+  if (SUCCESS_OUTCOMES.includes(outcome)) {
+    return 'success';
+  }
+  return FAILURE_OUTCOMES.includes(outcome) ? 'failure' : 'other';
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * OCSF API Activity activity_id and activity_name for a governance action
+ * Actions with no matching activity are Other (99), named after the action itself.
+ */
+function ocsfActivity(action: string): { id: number; name: string } {
+  const verb = action.split(':').pop()!.toLowerCase();
+  switch (verb) {
+    case 'create':
+      return { id: 1, name: 'Create' };
+    case 'read':
+      return { id: 2, name: 'Read' };
+    case 'update':
+    case 'write':
+      return { id: 3, name: 'Update' };
+    case 'delete':
+      return { id: 4, name: 'Delete' };
+    default:
+      return { id: 99, name: action };
+  }
+}
+
+/**
+ * Map an entry to an OCSF API Activity event (class 6003)
+ * The decision and the policies that produced it are reported as actor authorizations;
+ * metadata with no OCSF field is kept under `unmapped`. Signals do not record the caller's address,
+ * so the required src_endpoint names the principal that made the call.
+ */
+export function toOcsfEvent(entry: AuditEntry): Record<string, unknown> {
+  const { signal } = entry;
+  const status = outcomeStatus(signal.outcome);
+  const activity = ocsfActivity(signal.action);
+  const { policies, requestId: _requestId, ...unmapped } = signal.metadata ?? {};
+  const policyIds = stringList(policies);
+  const correlation = auditRequestId(entry);
+
+  return {
+    category_uid: OCSF_API_ACTIVITY.categoryUid,
+    class_uid: OCSF_API_ACTIVITY.classUid,
+    activity_id: activity.id,
+    activity_name: activity.name,
+    type_uid: OCSF_API_ACTIVITY.classUid * 100 + activity.id,
+    time: Date.parse(signal.timestamp),
+    severity_id: status === 'failure' ? 3 : 1,
+    status_id: status === 'success' ? 1 : status === 'failure' ? 2 : 99,
+    status: signal.outcome,
+    api: { operation: signal.action },
+    actor: {
+      user: { uid: signal.principal, name: signal.principal },
+      authorizations: (policyIds.length > 0 ? policyIds : [undefined]).map((policyId) => ({
+        decision: signal.outcome,
+        ...(policyId ? { policy: { uid: policyId, name: policyId } } : {}),
+      })),
+    },
+    src_endpoint: { name: signal.principal },
+    resources: [{ uid: signal.resource }],
+    metadata: {
+      version: OCSF_VERSION,
+      product: { name: PRODUCT_NAME, vendor_name: PRODUCT_NAME, version: VERSION },
+      uid: entry.auditId,
+      sequence: entry.sequence,
+      logged_time: Date.parse(entry.recordedAt),
+      ...(correlation ? { correlation_uid: correlation } : {}),
+    },
+    ...(Object.keys(unmapped).length > 0 ? { unmapped } : {}),
+  };
+}
+
+function escapeCefHeader(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/[\r\n]+/g, ' ');
+}
+
+function escapeCefValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/=/g, '\\=').replace(/\r?\n|\r/g, '\\n');
+}
+
+/**
+ * Map an entry to an ArcSight CEF line
+ * Signature ID is the action; the resource, policies and requestId go into labelled custom strings.
+ */
+export function toCefLine(entry: AuditEntry): string {
+  const { signal } = entry;
+  const status = outcomeStatus(signal.outcome);
+  const severity = status === 'failure' ? 7 : status === 'other' ? 5 : 3;
+  const requestId = auditRequestId(entry);
+  const policies = stringList(signal.metadata?.policies);
+  const reasons = stringList(signal.metadata?.reasons);
+
+  const extension: Array<[string, string | number | undefined]> = [
+    ['rt', Date.parse(signal.timestamp)],
+    ['suser', signal.principal],
+    ['act', signal.action],
+    ['outcome', signal.outcome],
+    ['externalId', entry.auditId],
+    ['cn1Label', 'sequence'],
+    ['cn1', entry.sequence],
+    ['cs1Label', 'resource'],
+    ['cs1', signal.resource],
+    ['cs2Label', 'policies'],
+    ['cs2', policies.join(',')],
+    ['cs3Label', 'requestId'],
+    ['cs3', requestId],
+    ['msg', reasons.length > 0 ? reasons.join('; ') : undefined],
+  ];
+
+  const header = ['CEF:0', PRODUCT_NAME, 'GovernanceCore', VERSION, signal.action, `${signal.action} ${signal.outcome}`, String(severity)]
+    .map((field, index) => (index === 0 ? field : escapeCefHeader(field)));
+
+  return `${header.join('|')}|${extension
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${escapeCefValue(String(value))}`)
+    .join(' ')}`;
+}
+
+/**
+ * Quote a CSV cell, prefixing cells a spreadsheet would run as a formula with "'"
+ */
+function escapeCsv(value: string): string {
+  const cell = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Map an entry to a CSV row in AUDIT_CSV_COLUMNS order
+ * Policies and reasons are joined with ";"; the remaining metadata is kept as JSON.
+ * Cells starting with "=", "+", "-", "@", a tab or a carriage return are prefixed with "'" so they are not run as formulas.
+ */
+export function toCsvRow(entry: AuditEntry): string {
+  const { signal } = entry;
+  const { policies, reasons, requestId: _requestId, ...rest } = signal.metadata ?? {};
+
+  return [
+    entry.auditId,
+    String(entry.sequence),
+    entry.recordedAt,
+    signal.timestamp,
+    signal.principal,
+    signal.action,
+    signal.resource,
+    signal.outcome,
+    auditRequestId(entry) ?? '',
+    stringList(policies).join(';'),
+    stringList(reasons).join(';'),
+    Object.keys(rest).length > 0 ? JSON.stringify(rest) : '',
+  ].map(escapeCsv).join(',');
+}
+
+// ============================================================================
+// Streaming
+// ============================================================================
+
+/**
+ * Format entries one line at a time, each ending in a newline (CSV starts with a header row)
+ */
+export async function* formatAuditEntries(entries: AsyncIterable<AuditEntry>, format: AuditExportFormat): AsyncIterable<string> {
+  if (format === 'csv') {
+    yield `${AUDIT_CSV_COLUMNS.join(',')}\n`;
+  }
+
+  for await (const entry of entries) {
+    switch (format) {
+      case 'ocsf':
+        yield `${JSON.stringify(toOcsfEvent(entry))}\n`;
+        break;
+      case 'cef':
+        yield `${toCefLine(entry)}\n`;
+        break;
+      case 'csv':
+        yield `${toCsvRow(entry)}\n`;
+        break;
+    }
+  }
+}
+
+/**
+ * Export a store's entries matching the filters, streamed in sequence order
+ *
+ * @throws Error if the format is unknown; invalid filters throw when the export is iterated
+ */
+export function exportAudit(store: AuditStore, format: AuditExportFormat, filters: AuditFilters = {}): AsyncIterable<string> {
+  return formatAuditEntries(selectAuditEntries(store, filters), parseAuditExportFormat(format));
+}
@@ -0,0 +1,476 @@
+/**
+ * LLM-Governance-Core Audit Log
+ *
+ * Append-only, hash-chained record of every audit signal GovernanceCore emits.
+ * Each entry hashes its predecessor, so modified, deleted or reordered entries break the chain.
+ * Erasure and retention may rewrite a signal only when a later chain entry records the change.
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import * as path from 'path';
+
+import { canonicalJson } from '../canonical';
+import type {
+  AuditChainVerification,
+  AuditEntry,
+  AuditErasureResult,
+  AuditFilters,
+  AuditQuery,
+  AuditQueryPage,
+  AuditRedaction,
+  AuditRetentionResult,
+  AuditSignal,
+} from '../types';
+import { JsonlAuditStore } from './jsonl';
+import { MAX_AUDIT_QUERY_LIMIT, matchesAuditQuery, resolveAuditQuery, scanAuditEntries } from './query';
+import { SqliteAuditStore } from './sqlite';
+
+/** previousHash of the first entry */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/** Actions of the entries that record erasure and retention changes */
+export const AUDIT_ERASURE_ACTION = 'audit:erasure';
+export const AUDIT_RETENTION_ACTION = 'audit:retention';
+
+/** Entries listed by a single erasure or retention record */
+const REDACTION_RECORD_SIZE = 1000;
+
+const EXPIRED = '[expired]';
+
+/**
+ * Retention windows in days, by signal outcome
+ * Entries older than their window keep their place in the chain but lose their principal, resource and metadata.
+ */
+export interface AuditRetentionPolicy {
+  /** Days to keep entries with each outcome, e.g. { allowed: 30, denied: 365 } */
+  outcomes?: Record<string, number>;
+
+  /** Days to keep entries with any other outcome (kept forever when unset) */
+  defaultDays?: number;
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/**
+ * Storage for audit entries
+ * Entries are appended in sequence order and never updated.
+ */
+export interface AuditStore {
+  append(entry: AuditEntry): Promise<void>;
+
+  /**
+   * Most recently appended entry, if any
+   */
+  last(): Promise<AuditEntry | undefined>;
+
+  /**
+   * Every entry in stored order
+   */
+  entries(): AsyncIterable<AuditEntry>;
+
+  /**
+   * Filtered, paginated entries; stores without it are queried by scanning entries()
+   */
+  query?(query: AuditQuery): Promise<AuditQueryPage>;
+
+  /**
+   * Overwrite stored entries with the same sequence; used only by erasure and retention
+   */
+  replace?(entries: AuditEntry[]): Promise<void>;
+}
+
+/**
+ * Process-local AuditStore; entries are lost when the process exits
+ */
+export class InMemoryAuditStore implements AuditStore {
+  private items: AuditEntry[] = [];
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.items.push(structuredClone(entry));
+  }
+
+  async last(): Promise<AuditEntry | undefined> {
+    const entry = this.items[this.items.length - 1];
+    return entry ? structuredClone(entry) : undefined;
+  }
+
+  async *entries(): AsyncIterable<AuditEntry> {
+    for (const entry of this.items) {
+      yield structuredClone(entry);
+    }
+  }
+
+  async replace(entries: AuditEntry[]): Promise<void> {
+    for (const entry of entries) {
+      const index = this.items.findIndex((item) => item.sequence === entry.sequence);
+      if (index !== -1) {
+        this.items[index] = structuredClone(entry);
+      }
+    }
+  }
+}
+
+/**
+ * Open a durable store by file extension: .db, .sqlite or .sqlite3 for SQLite, anything else for JSONL
+ *
+ * @throws Error if a SQLite database cannot be opened
+ */
+export function openAuditStore(filePath: string): AuditStore {
+  return ['.db', '.sqlite', '.sqlite3'].includes(path.extname(filePath).toLowerCase())
+    ? new SqliteAuditStore(filePath)
+    : new JsonlAuditStore(filePath);
+}
+
+/**
+ * Query any store, using its own query support when it has one
+ *
+ * @throws Error if the query is invalid
+ */
+export function queryAuditStore(store: AuditStore, query: AuditQuery): Promise<AuditQueryPage> {
+  return store.query ? store.query(query) : scanAuditEntries(store.entries(), query);
+}
+
+/**
+ * Every entry matching the filters, in sequence order, without holding them all in memory
+ * Stores with query support are read a page at a time; others are scanned once.
+ *
+ * @throws Error when iterated, if the filters are invalid
+ */
+export async function* selectAuditEntries(store: AuditStore, filters: AuditFilters = {}): AsyncIterable<AuditEntry> {
+  if (store.query) {
+    let cursor: string | undefined;
+    do {
+      const page = await store.query({ ...filters, limit: MAX_AUDIT_QUERY_LIMIT, cursor });
+      yield* page.entries;
+      cursor = page.nextCursor;
+    } while (cursor);
+    return;
+  }
+
+  const resolved = resolveAuditQuery(filters);
+  for await (const entry of store.entries()) {
+    if (matchesAuditQuery(entry, resolved)) {
+      yield entry;
+    }
+  }
+}
+
+// ============================================================================
+// Chain
+// ============================================================================
+
+/**
+ * New collision-free audit identifier
+ */
+export function createAuditId(): string {
+  return `audit-${randomUUID()}`;
+}
+
+/**
+ * Hash of a signal's canonical JSON, preceded by the entry's salt when it has one
+ */
+export function hashAuditSignal(signal: AuditSignal, salt = ''): string {
+  return createHash('sha256').update(salt).update(canonicalJson(signal)).digest('hex');
+}
+
+/**
+ * Hash of an entry
+ * The signal contributes through its salted hash; for redacted entries that is the original signal's hash.
+ */
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  const { auditId, sequence, recordedAt, previousHash } = entry;
+  const signalHash = entry.redaction?.signalHash ?? hashAuditSignal(entry.signal, entry.salt);
+  return createHash('sha256').update(canonicalJson({ auditId, sequence, recordedAt, signalHash, previousHash })).digest('hex');
+}
+
+/**
+ * Check that a store's entries form an unbroken chain
+ * A redacted entry must be listed, with the hash of its current signal, by a later erasure or retention record.
+ *
+ * @param expectedHead - Last entry known to have been appended; detects entries deleted from the end
+ */
+export async function verifyAuditChain(
+  store: AuditStore,
+  expectedHead?: { sequence: number; hash: string }
+): Promise<AuditChainVerification> {
+  let previous: AuditEntry | undefined;
+  let count = 0;
+  const redacted: AuditEntry[] = [];
+  const records = new Map<string, { sequence: number; signalHashes: Map<string, string> }>();
+
+  const fail = (entry: { sequence: number; auditId?: string }, reason: string): AuditChainVerification => ({
+    valid: false,
+    entries: count,
+    ...(previous ? { headHash: previous.hash } : {}),
+    error: { sequence: entry.sequence, ...(entry.auditId ? { auditId: entry.auditId } : {}), reason },
+  });
+
+  for await (const entry of store.entries()) {
+    const expectedSequence = (previous?.sequence ?? 0) + 1;
+
+    if (entry.sequence !== expectedSequence) {
+      return fail(entry, `expected sequence ${expectedSequence} but found ${entry.sequence} (entries missing or reordered)`);
+    }
+    if (entry.previousHash !== (previous?.hash ?? GENESIS_HASH)) {
+      return fail(entry, 'previousHash does not match the preceding entry');
+    }
+    if (entry.hash !== hashAuditEntry(entry)) {
+      return fail(entry, 'entry content does not match its hash (entry modified)');
+    }
+
+    if (entry.redaction) {
+      redacted.push(entry);
+    }
+    if (entry.signal.action === AUDIT_ERASURE_ACTION || entry.signal.action === AUDIT_RETENTION_ACTION) {
+      const listed = Array.isArray(entry.signal.metadata?.entries) ? entry.signal.metadata.entries as Array<{ auditId: string; signalHash: string }> : [];
+      records.set(entry.auditId, { sequence: entry.sequence, signalHashes: new Map(listed.map((item) => [item.auditId, item.signalHash])) });
+    }
+
+    previous = entry;
+    count++;
+  }
+
+  if (expectedHead && (previous?.sequence ?? 0) < expectedHead.sequence) {
+    return fail({ sequence: (previous?.sequence ?? 0) + 1 }, `entries after sequence ${previous?.sequence ?? 0} are missing`);
+  }
+  if (expectedHead && previous?.sequence === expectedHead.sequence && previous.hash !== expectedHead.hash) {
+    return fail(previous, 'last entry does not match the appended head');
+  }
+
+  for (const entry of redacted) {
+    const record = records.get(entry.redaction!.recordId);
+    if (!record || record.sequence <= entry.sequence || record.signalHashes.get(entry.auditId) !== hashAuditSignal(entry.signal)) {
+      return fail(entry, 'redacted entry is not covered by a matching erasure or retention record');
+    }
+  }
+
+  return { valid: true, entries: count, ...(previous ? { headHash: previous.hash } : {}) };
+}
+
+/**
+ * Replace every occurrence of a principal in a signal's strings, on identifier boundaries
+ */
+function pseudonymizeSignal(signal: AuditSignal, principal: string, pseudonym: string): AuditSignal {
+  const escaped = principal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(?<![\\w.@-])${escaped}(?![\\w.@-])`, 'g');
+
+  const replace = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return value.replace(pattern, pseudonym);
+    }
+    if (Array.isArray(value)) {
+      return value.map(replace);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [replace(key) as string, replace(item)]));
+    }
+    return value;
+  };
+
+  return replace(signal) as AuditSignal;
+}
+
+/**
+ * Days an entry is kept under a retention policy, if it expires at all
+ */
+function retentionDays(policy: AuditRetentionPolicy, outcome: string): number | undefined {
+  return policy.outcomes?.[outcome] ?? policy.defaultDays;
+}
+
+/**
+ * Parse a retention policy written as comma-separated `outcome=days` pairs, e.g. "allowed=30,denied=365,*=90"
+ * `*` sets the window for every other outcome.
+ *
+ * @throws Error if a pair is malformed or a window is not a positive number of days
+ */
+export function parseAuditRetentionPolicy(spec: string, source: string): AuditRetentionPolicy {
+  const policy: AuditRetentionPolicy = {};
+
+  for (const pair of spec.split(',').map((item) => item.trim()).filter((item) => item !== '')) {
+    const [outcome, days, extra] = pair.split('=').map((item) => item.trim());
+    const value = Number(days);
+
+    if (!outcome || days === undefined || extra !== undefined || !Number.isFinite(value) || value <= 0) {
+      throw new Error(`Invalid audit retention ${source}: "${pair}" must be <outcome>=<days> with a positive number of days`);
+    }
+    if (outcome === '*') {
+      policy.defaultDays = value;
+    } else {
+      policy.outcomes = { ...policy.outcomes, [outcome]: value };
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Appends audit signals to a store as a hash chain
+ * Appends are serialized, so concurrent signals still get consecutive sequence numbers.
+ */
+export class AuditLog {
+  private head?: { sequence: number; hash: string };
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly store: AuditStore) {}
+
+  /**
+   * Append a signal, returning the stored entry
+   *
+   * @throws Error if the store fails; the chain head is unchanged, so the next append reuses the sequence
+   */
+  append(signal: AuditSignal, auditId: string = createAuditId()): Promise<AuditEntry> {
+    return this.exclusive(() => this.appendEntry(signal, auditId));
+  }
+
+  /**
+   * Verify the store, including that no entry appended by this log was removed from the end
+   */
+  async verify(): Promise<AuditChainVerification> {
+    await this.queue;
+    return verifyAuditChain(this.store, this.head);
+  }
+
+  /**
+   * Query the store once appends already in flight have landed
+   */
+  async query(query: AuditQuery): Promise<AuditQueryPage> {
+    await this.queue;
+    return queryAuditStore(this.store, query);
+  }
+
+  /**
+   * Stream every matching entry once appends already in flight have landed
+   */
+  async *select(filters: AuditFilters = {}): AsyncIterable<AuditEntry> {
+    await this.queue;
+    yield* selectAuditEntries(this.store, filters);
+  }
+
+  /**
+   * Replace a principal with a pseudonym in every signal that mentions it
+   * Matches are whole identifiers, so erasing "alice" leaves "alice2" and "alice@example.com" alone.
+   * Erasure and retention records are not rewritten.
+   *
+   * @param requestedBy - Principal recorded on the audit:erasure entries
+   * @throws Error if the principal is empty or the store cannot rewrite entries
+   */
+  erasePrincipal(principal: string, requestedBy: string): Promise<AuditErasureResult> {
+    if (typeof principal !== 'string' || principal === '') {
+      return Promise.reject(new Error('Invalid audit erasure: principal must be a non-empty string'));
+    }
+
+    const pseudonym = `erased-${randomUUID()}`;
+    return this.exclusive(async () => {
+      const { changed, recordIds } = await this.redact('erasure', AUDIT_ERASURE_ACTION, requestedBy, (signal) => {
+        const pseudonymized = pseudonymizeSignal(signal, principal, pseudonym);
+        return canonicalJson(pseudonymized) === canonicalJson(signal) ? undefined : pseudonymized;
+      });
+      return { pseudonym, entries: changed, recordIds };
+    });
+  }
+
+  /**
+   * Remove the principal, resource and metadata of entries older than their retention window
+   * Expired entries keep their timestamp, action and outcome, so the chain and aggregate counts survive.
+   *
+   * @throws Error if the store cannot rewrite entries
+   */
+  applyRetention(policy: AuditRetentionPolicy, now: Date = new Date()): Promise<AuditRetentionResult> {
+    return this.exclusive(async () => {
+      const { changed, recordIds } = await this.redact('retention', AUDIT_RETENTION_ACTION, 'governance-core', (signal, entry) => {
+        const days = retentionDays(policy, signal.outcome);
+        if (days === undefined || entry.redaction?.reason === 'retention' || Date.parse(entry.recordedAt) + days * 86_400_000 > now.getTime()) {
+          return undefined;
+        }
+        return { timestamp: signal.timestamp, principal: EXPIRED, action: signal.action, resource: EXPIRED, outcome: signal.outcome };
+      });
+      return { expired: changed, recordIds };
+    });
+  }
+
+  /**
+   * Run work after every queued operation, holding off later ones until it settles
+   */
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(work);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async appendEntry(signal: AuditSignal, auditId: string): Promise<AuditEntry> {
+    const head = this.head ?? (await this.store.last());
+    const unhashed: Omit<AuditEntry, 'hash'> = {
+      auditId,
+      sequence: (head?.sequence ?? 0) + 1,
+      recordedAt: new Date().toISOString(),
+      signal,
+      previousHash: head?.hash ?? GENESIS_HASH,
+      salt: randomBytes(16).toString('hex'),
+    };
+    const entry: AuditEntry = { ...unhashed, hash: hashAuditEntry(unhashed) };
+
+    await this.store.append(entry);
+    this.head = { sequence: entry.sequence, hash: entry.hash };
+    return entry;
+  }
+
+  /**
+   * Rewrite the signals `change` returns a replacement for
+   * Records listing the new signal hashes are appended before any entry is rewritten,
+   * so an interrupted run leaves the chain verifiable.
+   */
+  private async redact(
+    reason: AuditRedaction['reason'],
+    action: string,
+    requestedBy: string,
+    change: (signal: AuditSignal, entry: AuditEntry) => AuditSignal | undefined
+  ): Promise<{ changed: number; recordIds: string[] }> {
+    if (!this.store.replace) {
+      throw new Error('Audit store does not support rewriting entries');
+    }
+
+    const changed: Array<{ entry: AuditEntry; signal: AuditSignal }> = [];
+    for await (const entry of this.store.entries()) {
+      if (entry.signal.action === AUDIT_ERASURE_ACTION || entry.signal.action === AUDIT_RETENTION_ACTION) {
+        continue;
+      }
+      const signal = change(entry.signal, entry);
+      if (signal) {
+        changed.push({ entry, signal });
+      }
+    }
+
+    const recordIds: string[] = [];
+    const redacted: AuditEntry[] = [];
+    const redactedAt = new Date().toISOString();
+
+    for (let start = 0; start < changed.length; start += REDACTION_RECORD_SIZE) {
+      const chunk = changed.slice(start, start + REDACTION_RECORD_SIZE);
+      const recordId = createAuditId();
+
+      await this.appendEntry({
+        timestamp: redactedAt,
+        principal: requestedBy,
+        action,
+        resource: 'audit-log',
+        outcome: 'applied',
+        metadata: { reason, entries: chunk.map(({ entry, signal }) => ({ auditId: entry.auditId, signalHash: hashAuditSignal(signal) })) },
+      }, recordId);
+
+      for (const { entry, signal } of chunk) {
+        // Keep the hash of the signal as first appended, which the chain still commits to, but drop its salt
+        const { salt, ...rest } = entry;
+        const signalHash = entry.redaction?.signalHash ?? hashAuditSignal(entry.signal, salt);
+        redacted.push({ ...rest, signal, redaction: { reason, signalHash, recordId, redactedAt } });
+      }
+      recordIds.push(recordId);
+    }
+
+    if (redacted.length > 0) {
+      await this.store.replace(redacted);
+    }
+    return { changed: changed.length, recordIds };
+  }
+}
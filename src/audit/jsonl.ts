@@ -0,0 +1,127 @@
+/**
+ * LLM-Governance-Core JSONL Audit Store
+ *
+ * Append-only file with one AuditEntry per line. Queries scan the file,
+ * so this store suits modest volumes; use SqliteAuditStore for indexed queries.
+ */
+
+import { once } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+
+import type { AuditEntry } from '../types';
+import type { AuditStore } from './index';
+
+/**
+ * AuditStore backed by a JSON Lines file
+ * Has no query support of its own, so queries scan entries().
+ * The file must have a single writer process; the last entry is cached after the first read.
+ * Appends and rewrites are serialized, so an append made during a rewrite lands in the rewritten file.
+ */
+export class JsonlAuditStore implements AuditStore {
+  private head?: AuditEntry | null;
+  private ready?: Promise<void>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    return this.exclusive(async () => {
+      this.ready ??= fs.promises.mkdir(path.dirname(this.filePath), { recursive: true }).then(() => undefined);
+      await this.ready;
+      await fs.promises.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+      this.head = structuredClone(entry);
+    });
+  }
+
+  async last(): Promise<AuditEntry | undefined> {
+    if (this.head === undefined) {
+      let last: AuditEntry | null = null;
+      for await (const entry of this.entries()) {
+        last = entry;
+      }
+      this.head = last;
+    }
+    return this.head ? structuredClone(this.head) : undefined;
+  }
+
+  /**
+   * @throws Error if a line is not valid JSON (e.g. a write cut short by a crash)
+   */
+  async *entries(): AsyncIterable<AuditEntry> {
+    let stream: fs.ReadStream;
+    try {
+      await fs.promises.access(this.filePath);
+      stream = fs.createReadStream(this.filePath, { encoding: 'utf8' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    let lineNumber = 0;
+
+    try {
+      for await (const line of lines) {
+        lineNumber++;
+        if (line.trim() === '') {
+          continue;
+        }
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line) as AuditEntry;
+        } catch {
+          throw new Error(`Invalid audit log ${path.basename(this.filePath)} line ${lineNumber}: not valid JSON`);
+        }
+        yield entry;
+      }
+    } finally {
+      lines.close();
+      stream.destroy();
+    }
+  }
+
+  /**
+   * Rewrite the file with the given entries swapped in, then rename it over the original
+   */
+  replace(entries: AuditEntry[]): Promise<void> {
+    return this.exclusive(() => this.rewrite(entries));
+  }
+
+  /**
+   * Run work after every queued write, holding off later ones until it settles
+   */
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(work);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async rewrite(entries: AuditEntry[]): Promise<void> {
+    const replacements = new Map(entries.map((entry) => [entry.sequence, entry]));
+    const temporary = `${this.filePath}.${process.pid}.tmp`;
+    const out = fs.createWriteStream(temporary, { encoding: 'utf8' });
+
+    try {
+      for await (const entry of this.entries()) {
+        if (!out.write(`${JSON.stringify(replacements.get(entry.sequence) ?? entry)}\n`)) {
+          await once(out, 'drain');
+        }
+      }
+      out.end();
+      await once(out, 'finish');
+    } catch (error) {
+      out.destroy();
+      await fs.promises.rm(temporary, { force: true });
+      throw error;
+    }
+
+    await fs.promises.rename(temporary, this.filePath);
+    if (this.head && replacements.has(this.head.sequence)) {
+      this.head = structuredClone(replacements.get(this.head.sequence)!);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * LLM-Governance-Core Audit Queries
+ *
+ * Filter matching and cursor pagination shared by the audit stores.
+ * Cursors are opaque to callers; they encode the sequence of the last entry returned.
+ */
+
+import type { AuditEntry, AuditQuery, AuditQueryPage } from '../types';
+
+export const DEFAULT_AUDIT_QUERY_LIMIT = 100;
+export const MAX_AUDIT_QUERY_LIMIT = 1000;
+
+const STRING_FILTERS = ['principal', 'resource', 'outcome', 'requestId', 'from', 'to', 'cursor'] as const;
+
+/**
+ * A validated query with its cursor and time range decoded
+ */
+export interface ResolvedAuditQuery {
+  query: AuditQuery;
+  afterSequence: number;
+  fromMs?: number;
+  toMs?: number;
+  limit: number;
+}
+
+/**
+ * Validate a query and decode its cursor and time range
+ *
+ * @throws Error if a filter is not a string, a time is not ISO 8601, the limit is out of range or the cursor is malformed
+ */
+export function resolveAuditQuery(query: AuditQuery): ResolvedAuditQuery {
+  for (const field of STRING_FILTERS) {
+    if (query[field] !== undefined && typeof query[field] !== 'string') {
+      throw new Error(`Invalid audit query: ${field} must be a string`);
+    }
+  }
+
+  const limit = query.limit ?? DEFAULT_AUDIT_QUERY_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_QUERY_LIMIT) {
+    throw new Error(`Invalid audit query: limit must be an integer between 1 and ${MAX_AUDIT_QUERY_LIMIT}`);
+  }
+
+  const parseTime = (field: 'from' | 'to'): number | undefined => {
+    if (query[field] === undefined) {
+      return undefined;
+    }
+    const time = Date.parse(query[field]!);
+    if (Number.isNaN(time)) {
+      throw new Error(`Invalid audit query: ${field} must be an ISO 8601 time`);
+    }
+    return time;
+  };
+
+  return {
+    query,
+    afterSequence: query.cursor === undefined ? 0 : decodeAuditCursor(query.cursor),
+    fromMs: parseTime('from'),
+    toMs: parseTime('to'),
+    limit,
+  };
+}
+
+export function encodeAuditCursor(sequence: number): string {
+  return Buffer.from(`seq:${sequence}`).toString('base64url');
+}
+
+/**
+ * @throws Error if the cursor was not produced by encodeAuditCursor
+ */
+export function decodeAuditCursor(cursor: string): number {
+  const match = /^seq:(\d+)$/.exec(Buffer.from(cursor, 'base64url').toString('utf8'));
+  if (!match) {
+    throw new Error('Invalid audit query: malformed cursor');
+  }
+  return Number(match[1]);
+}
+
+/**
+ * metadata.requestId of a signal, when it has one
+ */
+export function auditRequestId(entry: AuditEntry): string | undefined {
+  const requestId = entry.signal.metadata?.requestId;
+  return typeof requestId === 'string' ? requestId : undefined;
+}
+
+/**
+ * Whether an entry passes a query's filters (the cursor and limit are not considered)
+ */
+export function matchesAuditQuery(entry: AuditEntry, resolved: ResolvedAuditQuery): boolean {
+  const { query, fromMs, toMs } = resolved;
+  const { signal } = entry;
+  const time = Date.parse(signal.timestamp);
+
+  return (query.principal === undefined || signal.principal === query.principal)
+    && (query.resource === undefined || signal.resource === query.resource)
+    && (query.outcome === undefined || signal.outcome === query.outcome)
+    && (query.requestId === undefined || auditRequestId(entry) === query.requestId)
+    && (fromMs === undefined || time >= fromMs)
+    && (toMs === undefined || time < toMs);
+}
+
+/**
+ * Build a page from entries fetched one past the limit, in sequence order
+ */
+export function toAuditQueryPage(matches: AuditEntry[], limit: number): AuditQueryPage {
+  const entries = matches.slice(0, limit);
+  return matches.length > limit
+    ? { entries, nextCursor: encodeAuditCursor(entries[entries.length - 1].sequence) }
+    : { entries };
+}
+
+/**
+ * Answer a query by scanning entries in sequence order
+ * Used by stores without an index of their own.
+ *
+ * @throws Error if the query is invalid
+ */
+export async function scanAuditEntries(entries: AsyncIterable<AuditEntry>, query: AuditQuery): Promise<AuditQueryPage> {
+  const resolved = resolveAuditQuery(query);
+  const matches: AuditEntry[] = [];
+
+  for await (const entry of entries) {
+    if (entry.sequence > resolved.afterSequence && matchesAuditQuery(entry, resolved)) {
+      matches.push(entry);
+      if (matches.length > resolved.limit) {
+        break;
+      }
+    }
+  }
+
+  return toAuditQueryPage(matches, resolved.limit);
+}
@@ -0,0 +1,159 @@
+/**
+ * LLM-Governance-Core SQLite Audit Store
+ *
+ * Indexed audit storage using the node:sqlite module built into Node.js 22.5+.
+ * The module is loaded when a store is opened, so other stores work on older runtimes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DatabaseSync } from 'node:sqlite';
+
+import type { AuditEntry, AuditQuery, AuditQueryPage } from '../types';
+import type { AuditStore } from './index';
+import { auditRequestId, resolveAuditQuery, toAuditQueryPage } from './query';
+
+/** Rows read per statement while iterating every entry */
+const PAGE_SIZE = 500;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS audit_entries (
+    sequence INTEGER PRIMARY KEY,
+    audit_id TEXT NOT NULL UNIQUE,
+    principal TEXT NOT NULL,
+    resource TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    request_id TEXT,
+    timestamp_ms INTEGER,
+    entry TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS audit_entries_principal ON audit_entries (principal, sequence);
+  CREATE INDEX IF NOT EXISTS audit_entries_resource ON audit_entries (resource, sequence);
+  CREATE INDEX IF NOT EXISTS audit_entries_request_id ON audit_entries (request_id, sequence);
+  CREATE INDEX IF NOT EXISTS audit_entries_timestamp ON audit_entries (timestamp_ms);
+`;
+
+/**
+ * AuditStore backed by a SQLite database file
+ * Filters are answered from indexed columns; the full entry is stored as JSON.
+ */
+export class SqliteAuditStore implements AuditStore {
+  private db: DatabaseSync;
+
+  /**
+   * @throws Error if node:sqlite is unavailable or the database cannot be opened
+   */
+  constructor(filePath: string) {
+    let sqlite: typeof import('node:sqlite');
+    try {
+      sqlite = require('node:sqlite');
+    } catch {
+      throw new Error('SQLite audit store requires Node.js 22.5 or later (node:sqlite)');
+    }
+
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    this.db = new sqlite.DatabaseSync(filePath);
+    this.db.exec(SCHEMA);
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    const time = Date.parse(entry.signal.timestamp);
+    this.db.prepare(`
+      INSERT INTO audit_entries (sequence, audit_id, principal, resource, outcome, request_id, timestamp_ms, entry)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.sequence,
+      entry.auditId,
+      entry.signal.principal,
+      entry.signal.resource,
+      entry.signal.outcome,
+      auditRequestId(entry) ?? null,
+      Number.isNaN(time) ? null : time,
+      JSON.stringify(entry)
+    );
+  }
+
+  async last(): Promise<AuditEntry | undefined> {
+    const row = this.db.prepare('SELECT entry FROM audit_entries ORDER BY sequence DESC LIMIT 1').get() as { entry: string } | undefined;
+    return row ? JSON.parse(row.entry) : undefined;
+  }
+
+  async *entries(): AsyncIterable<AuditEntry> {
+    const statement = this.db.prepare('SELECT sequence, entry FROM audit_entries WHERE sequence > ? ORDER BY sequence LIMIT ?');
+    let after = 0;
+
+    for (;;) {
+      const rows = statement.all(after, PAGE_SIZE) as Array<{ sequence: number; entry: string }>;
+      for (const row of rows) {
+        yield JSON.parse(row.entry) as AuditEntry;
+      }
+      if (rows.length < PAGE_SIZE) {
+        return;
+      }
+      after = rows[rows.length - 1].sequence;
+    }
+  }
+
+  async query(query: AuditQuery): Promise<AuditQueryPage> {
+    const resolved = resolveAuditQuery(query);
+    const clauses = ['sequence > ?'];
+    const params: Array<string | number> = [resolved.afterSequence];
+
+    const filters: Array<[string, string | number | undefined]> = [
+      ['principal = ?', query.principal],
+      ['resource = ?', query.resource],
+      ['outcome = ?', query.outcome],
+      ['request_id = ?', query.requestId],
+      ['timestamp_ms >= ?', resolved.fromMs],
+      ['timestamp_ms < ?', resolved.toMs],
+    ];
+    for (const [clause, value] of filters) {
+      if (value !== undefined) {
+        clauses.push(clause);
+        params.push(value);
+      }
+    }
+
+    const rows = this.db
+      .prepare(`SELECT entry FROM audit_entries WHERE ${clauses.join(' AND ')} ORDER BY sequence LIMIT ?`)
+      .all(...params, resolved.limit + 1) as Array<{ entry: string }>;
+
+    return toAuditQueryPage(rows.map((row) => JSON.parse(row.entry) as AuditEntry), resolved.limit);
+  }
+
+  /**
+   * Overwrite stored entries in one transaction
+   */
+  async replace(entries: AuditEntry[]): Promise<void> {
+    const statement = this.db.prepare(`
+      UPDATE audit_entries SET principal = ?, resource = ?, outcome = ?, request_id = ?, entry = ? WHERE sequence = ?
+    `);
+
+    this.db.exec('BEGIN');
+    try {
+      for (const entry of entries) {
+        statement.run(
+          entry.signal.principal,
+          entry.signal.resource,
+          entry.signal.outcome,
+          auditRequestId(entry) ?? null,
+          JSON.stringify(entry),
+          entry.sequence
+        );
+      }
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Close the database; the store cannot be used afterwards
+   */
+  close(): void {
+    this.db.close();
+  }
+}
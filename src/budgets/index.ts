@@ -0,0 +1,162 @@
+/**
+ * LLM-Governance-Core Budgets
+ *
+ * Budget lookup keys, period arithmetic and status evaluation used by getFinOpsSummary.
+ * Budgets are stored in Config Manager; spend comes from CostOps. This module only does the math.
+ */
+
+import type {
+  AppliedBudget,
+  BudgetDefinition,
+  BudgetPeriod,
+  BudgetScopeType,
+} from '../types';
+
+const DEFAULT_WARNING_THRESHOLDS = [0.8];
+const BUDGET_PERIODS: BudgetPeriod[] = ['daily', 'weekly', 'monthly', 'quarterly', 'yearly'];
+
+/**
+ * Subjects a FinOps summary can be attributed to, besides the resource itself
+ */
+export interface BudgetSubjects {
+  principal?: string;
+  team?: string;
+  tags?: string[];
+}
+
+/**
+ * Budget status and consumption figures for the current period
+ */
+export interface BudgetEvaluation {
+  budgetStatus: 'within' | 'warning' | 'exceeded';
+  remainingBudget: number;
+  percentConsumed: number;
+  projectedOverrunDate?: string;
+}
+
+/**
+ * Config Manager key holding the budget for a subject
+ */
+export function budgetConfigKey(scopeType: BudgetScopeType, scopeValue: string): string {
+  return `finops.budgets.${scopeType}.${scopeValue}`;
+}
+
+/**
+ * Candidate budgets in precedence order: resource, principal, team, then each tag
+ */
+export function budgetCandidates(resourceId: string, subjects: BudgetSubjects = {}): Array<{ scopeType: BudgetScopeType; scopeValue: string }> {
+  const candidates: Array<{ scopeType: BudgetScopeType; scopeValue: string }> = [
+    { scopeType: 'resource', scopeValue: resourceId },
+  ];
+
+  if (subjects.principal) {
+    candidates.push({ scopeType: 'principal', scopeValue: subjects.principal });
+  }
+  if (subjects.team) {
+    candidates.push({ scopeType: 'team', scopeValue: subjects.team });
+  }
+  for (const tag of subjects.tags || []) {
+    candidates.push({ scopeType: 'tag', scopeValue: tag });
+  }
+
+  return candidates;
+}
+
+/**
+ * Validate a budget config value
+ *
+ * @throws Error if the value is not a usable BudgetDefinition
+ */
+export function parseBudgetDefinition(value: unknown, key: string): BudgetDefinition {
+  const budget = (value || {}) as Record<string, unknown>;
+
+  if (typeof budget.amount !== 'number' || !Number.isFinite(budget.amount) || budget.amount <= 0) {
+    throw new Error(`Invalid budget ${key}: amount must be a positive number`);
+  }
+  if (!BUDGET_PERIODS.includes(budget.period as BudgetPeriod)) {
+    throw new Error(`Invalid budget ${key}: period must be one of ${BUDGET_PERIODS.join(', ')}`);
+  }
+  if (typeof budget.currency !== 'string' || budget.currency.trim() === '') {
+    throw new Error(`Invalid budget ${key}: currency must be a non-empty string`);
+  }
+  if (budget.warningThresholds !== undefined && (
+    !Array.isArray(budget.warningThresholds)
+    || budget.warningThresholds.length === 0
+    || budget.warningThresholds.some((t) => typeof t !== 'number' || t <= 0 || t > 1)
+  )) {
+    throw new Error(`Invalid budget ${key}: warningThresholds must be a non-empty list of fractions in (0, 1]`);
+  }
+
+  return budget as unknown as BudgetDefinition;
+}
+
+/**
+ * Calendar-aligned UTC bounds of the period containing `now` (end is exclusive)
+ */
+export function periodBounds(period: BudgetPeriod, now: Date): { start: Date; end: Date } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const day = now.getUTCDate();
+
+  switch (period) {
+    case 'daily':
+      return { start: new Date(Date.UTC(year, month, day)), end: new Date(Date.UTC(year, month, day + 1)) };
+    case 'weekly': {
+      const offset = (now.getUTCDay() + 6) % 7; // days since Monday
+      return { start: new Date(Date.UTC(year, month, day - offset)), end: new Date(Date.UTC(year, month, day - offset + 7)) };
+    }
+    case 'monthly':
+      return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) };
+    case 'quarterly': {
+      const quarterStart = month - (month % 3);
+      return { start: new Date(Date.UTC(year, quarterStart, 1)), end: new Date(Date.UTC(year, quarterStart + 3, 1)) };
+    }
+    case 'yearly':
+      return { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year + 1, 0, 1)) };
+  }
+}
+
+/**
+ * Evaluate consumption of a budget
+ *
+ * @param budget - Budget being evaluated
+ * @param periodCost - Spend so far in the current period
+ * @param projectedPeriodCost - Expected total spend by the end of the period
+ * @param warningThresholds - Fractions of the amount that trigger a warning
+ * @param now - Evaluation time
+ */
+export function evaluateBudget(
+  budget: AppliedBudget,
+  periodCost: number,
+  projectedPeriodCost: number,
+  warningThresholds: number[] = DEFAULT_WARNING_THRESHOLDS,
+  now: Date = new Date()
+): BudgetEvaluation {
+  const remainingBudget = budget.amount - periodCost;
+  const percentConsumed = (periodCost / budget.amount) * 100;
+
+  if (periodCost >= budget.amount) {
+    return { budgetStatus: 'exceeded', remainingBudget, percentConsumed };
+  }
+
+  // Spread the projected remaining spend evenly over the rest of the period
+  let projectedOverrunDate: string | undefined;
+  const periodEnd = new Date(budget.periodEnd).getTime();
+  const remainingMs = periodEnd - now.getTime();
+  const projectedRemainingSpend = projectedPeriodCost - periodCost;
+
+  if (projectedPeriodCost > budget.amount && remainingMs > 0 && projectedRemainingSpend > 0) {
+    const msToOverrun = (remainingBudget / projectedRemainingSpend) * remainingMs;
+    projectedOverrunDate = new Date(now.getTime() + msToOverrun).toISOString();
+  }
+
+  const warningAt = Math.min(...warningThresholds) * 100;
+  const budgetStatus = percentConsumed >= warningAt || projectedOverrunDate ? 'warning' : 'within';
+
+  return {
+    budgetStatus,
+    remainingBudget,
+    percentConsumed,
+    ...(projectedOverrunDate ? { projectedOverrunDate } : {}),
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * LLM-Governance-Core Cache
+ *
+ * Opt-in TTL caches for RBAC contexts, FinOps summaries and policy decisions.
+ * Entries remember the Config Manager keys they were built from so a config change
+ * can invalidate exactly the entries that depend on it.
+ */
+
+import { createHash } from 'crypto';
+
+import { canonicalJson } from '../canonical';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CacheName = 'rbac' | 'finops' | 'policy';
+
+export interface CacheOptions {
+  /** TTL for resolved RBAC contexts (default 60s) */
+  rbacTtlMs?: number;
+
+  /** TTL for FinOps summaries (default 60s) */
+  finopsTtlMs?: number;
+
+  /** TTL for policy decisions; policy decisions are only cached when set */
+  policyTtlMs?: number;
+
+  /** Maximum entries per cache; the oldest entry is evicted first (default 10000) */
+  maxEntries?: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+
+  /** Entries dropped because a dependency changed or the cache was cleared */
+  invalidations: number;
+
+  /** Live entries */
+  size: number;
+}
+
+const DEFAULT_TTL_MS = 60_000;
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+// ============================================================================
+// TTL Cache
+// ============================================================================
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+  dependencies: string[];
+}
+
+/**
+ * Map with per-entry expiry, dependency-based invalidation and hit/miss counters
+ * Values are cloned on read so callers cannot mutate cached state.
+ */
+export class TtlCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private dependents = new Map<string, Set<string>>();
+  private counters = { hits: 0, misses: 0, invalidations: 0 };
+
+  /**
+   * @param onRelease - Called with a dependency once no entry depends on it any more
+   */
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries: number = DEFAULT_MAX_ENTRIES,
+    private readonly onRelease?: (dependency: string) => void
+  ) {}
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.delete(key);
+      }
+      this.counters.misses++;
+      return undefined;
+    }
+
+    this.counters.hits++;
+    return structuredClone(entry.value);
+  }
+
+  /**
+   * Store a value
+   *
+   * @param dependencies - Config keys the value was built from
+   */
+  set(key: string, value: T, dependencies: Iterable<string> = []): void {
+    this.delete(key);
+
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.delete(oldest);
+      }
+    }
+
+    const deps = Array.from(dependencies);
+    this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + this.ttlMs, dependencies: deps });
+
+    for (const dependency of deps) {
+      let keys = this.dependents.get(dependency);
+      if (!keys) {
+        keys = new Set();
+        this.dependents.set(dependency, keys);
+      }
+      keys.add(key);
+    }
+
+    // After the new entry is added, so dependencies it shares with expired entries stay held
+    this.purgeExpired();
+  }
+
+  /**
+   * Drop every entry built from a config key, returning how many were dropped
+   */
+  invalidateDependency(dependency: string): number {
+    const keys = Array.from(this.dependents.get(dependency) ?? []);
+    keys.forEach((key) => this.delete(key));
+    this.counters.invalidations += keys.length;
+    return keys.length;
+  }
+
+  clear(): void {
+    const released = Array.from(this.dependents.keys());
+    this.counters.invalidations += this.entries.size;
+    this.entries.clear();
+    this.dependents.clear();
+    released.forEach((dependency) => this.onRelease?.(dependency));
+  }
+
+  /**
+   * Whether any entry depends on a config key
+   */
+  hasDependency(dependency: string): boolean {
+    return this.dependents.has(dependency);
+  }
+
+  stats(): CacheStats {
+    return { ...this.counters, size: this.entries.size };
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+
+    this.entries.delete(key);
+    for (const dependency of entry.dependencies) {
+      const keys = this.dependents.get(dependency);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.dependents.delete(dependency);
+        this.onRelease?.(dependency);
+      }
+    }
+  }
+
+  /**
+   * Drop expired entries so their dependencies are released
+   * Every entry has the same TTL and is re-inserted when set, so entries expire in insertion order.
+   */
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt > now) {
+        break;
+      }
+      this.delete(key);
+    }
+  }
+}
+
+// ============================================================================
+// Governance Cache
+// ============================================================================
+
+/**
+ * The caches used by GovernanceCore; `policy` is absent unless policyTtlMs is set
+ */
+export class GovernanceCache {
+  readonly rbac: TtlCache<unknown>;
+  readonly finops: TtlCache<unknown>;
+  readonly policy?: TtlCache<unknown>;
+
+  /**
+   * @param onRelease - Called with a config key once no entry in any cache depends on it
+   */
+  constructor(options: CacheOptions = {}, onRelease?: (configKey: string) => void) {
+    const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    const release = onRelease && ((configKey: string) => {
+      if (!this.hasDependency(configKey)) {
+        onRelease(configKey);
+      }
+    });
+
+    this.rbac = new TtlCache(options.rbacTtlMs ?? DEFAULT_TTL_MS, maxEntries, release);
+    this.finops = new TtlCache(options.finopsTtlMs ?? DEFAULT_TTL_MS, maxEntries, release);
+    this.policy = options.policyTtlMs !== undefined ? new TtlCache(options.policyTtlMs, maxEntries, release) : undefined;
+  }
+
+  /**
+   * Whether an entry in any cache depends on a config key
+   */
+  hasDependency(configKey: string): boolean {
+    return this.rbac.hasDependency(configKey)
+      || this.finops.hasDependency(configKey)
+      || (this.policy?.hasDependency(configKey) ?? false);
+  }
+
+  /**
+   * Drop entries in every cache that were built from a config key
+   */
+  invalidateDependency(configKey: string): void {
+    this.rbac.invalidateDependency(configKey);
+    this.finops.invalidateDependency(configKey);
+    this.policy?.invalidateDependency(configKey);
+  }
+
+  stats(): Record<CacheName, CacheStats> {
+    const empty: CacheStats = { hits: 0, misses: 0, invalidations: 0, size: 0 };
+    return {
+      rbac: this.rbac.stats(),
+      finops: this.finops.stats(),
+      policy: this.policy?.stats() ?? empty,
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Stable hash of a request context; key order does not affect the result
+ */
+export function hashContext(context: Record<string, unknown> = {}): string {
+  return createHash('sha256').update(canonicalJson(context)).digest('hex');
+}
@@ -0,0 +1,27 @@
+/**
+ * LLM-Governance-Core Canonical JSON
+ *
+ * Deterministic JSON for hashing: object keys are sorted at every level,
+ * so two values with the same content always serialize the same way.
+ */
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * JSON.stringify with object keys sorted
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(canonicalize(value));
+}
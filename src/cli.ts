@@ -9,6 +9,8 @@ import type {
   RBACContext,
   FinOpsSummary,
   AuditSignal,
+  AuditQuery,
+  AuditFilters,
   PolicyEvaluationResult,
 } from './types';
 import type {
@@ -17,6 +19,12 @@ import type {
   IPolicyEngineAdapter,
   AdapterResponse,
 } from './adapters';
+import * as fs from 'fs';
+import * as path from 'path';
+import { once } from 'events';
+import { openAuditStore, queryAuditStore } from './audit';
+import type { AuditStore } from './audit';
+import { exportAudit, parseAuditExportFormat } from './audit/export';
 
 // Mock adapters for CLI testing
 const mockPolicyAdapter: IPolicyEngineAdapter = {
@@ -117,6 +125,130 @@ async function handleAudit(signalJson: string): Promise<void> {
   console.log(JSON.stringify({ emitted: true, signal }, null, 2));
 }
 
+/**
+ * Audit log filters from --principal, --resource, --outcome, --request-id, --from and --to
+ */
+function readAuditFilters(option: (name: string) => string | undefined): AuditFilters {
+  const filters: AuditFilters = {};
+  const flags = [
+    ['principal', 'principal'],
+    ['resource', 'resource'],
+    ['outcome', 'outcome'],
+    ['request-id', 'requestId'],
+    ['from', 'from'],
+    ['to', 'to'],
+  ] as const;
+  for (const [flag, field] of flags) {
+    const value = option(flag);
+    if (value !== undefined) {
+      filters[field] = value;
+    }
+  }
+  return filters;
+}
+
+/**
+ * Open the audit log named by --store or GOVERNANCE_AUDIT_LOG
+ */
+function openAuditLog(option: (name: string) => string | undefined): AuditStore {
+  const storePath = option('store') ?? process.env.GOVERNANCE_AUDIT_LOG;
+  if (!storePath) {
+    throw new Error('Missing --store <file> argument (or GOVERNANCE_AUDIT_LOG)');
+  }
+  if (!fs.existsSync(storePath)) {
+    throw new Error(`Audit log not found: ${storePath}`);
+  }
+  return openAuditStore(path.resolve(storePath));
+}
+
+/**
+ * POST a JSON body to an admin route of the governance server named by --server or GOVERNANCE_SERVER_URL
+ * Commands that rewrite the audit log go through the server, so it stays the log's only writer.
+ * The server records the identity of the admin token (--token or GOVERNANCE_ADMIN_TOKEN) as the requester.
+ */
+async function postToServer(option: (name: string) => string | undefined, route: string, body: unknown): Promise<unknown> {
+  const serverUrl = option('server') ?? process.env.GOVERNANCE_SERVER_URL;
+  if (!serverUrl) {
+    throw new Error('Missing --server <url> argument (or GOVERNANCE_SERVER_URL)');
+  }
+  const token = option('token') ?? process.env.GOVERNANCE_ADMIN_TOKEN;
+  if (!token) {
+    throw new Error('Missing --token <token> argument (or GOVERNANCE_ADMIN_TOKEN)');
+  }
+
+  const response = await fetch(new URL(route, serverUrl), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+  const result = (await response.json().catch(() => ({}))) as { message?: string };
+  if (!response.ok) {
+    throw new Error(result.message ?? `Server responded with ${response.status}`);
+  }
+  return result;
+}
+
+function readOptions(args: string[]): (name: string) => string | undefined {
+  return (name) => {
+    const index = args.indexOf(`--${name}`);
+    return index === -1 ? undefined : args[index + 1];
+  };
+}
+
+async function handleAuditLogQuery(args: string[]): Promise<void> {
+  const option = readOptions(args);
+  const query: AuditQuery = { ...readAuditFilters(option) };
+
+  const cursor = option('cursor');
+  if (cursor !== undefined) {
+    query.cursor = cursor;
+  }
+  const limit = option('limit');
+  if (limit !== undefined) {
+    query.limit = Number(limit);
+  }
+
+  const page = await queryAuditStore(openAuditLog(option), query);
+  console.log(JSON.stringify(page, null, 2));
+}
+
+async function handleAuditLogExport(args: string[]): Promise<void> {
+  const option = readOptions(args);
+  const format = parseAuditExportFormat(option('format'));
+  const lines = exportAudit(openAuditLog(option), format, readAuditFilters(option));
+
+  const outPath = option('out');
+  const out = outPath ? fs.createWriteStream(outPath) : process.stdout;
+
+  // Respect backpressure so large exports are never buffered in full
+  for await (const line of lines) {
+    if (!out.write(line)) {
+      await once(out, 'drain');
+    }
+  }
+
+  if (outPath) {
+    out.end();
+    await once(out, 'finish');
+  }
+}
+
+async function handleAuditLogErase(args: string[]): Promise<void> {
+  const option = readOptions(args);
+  const principal = option('principal');
+  if (!principal) {
+    throw new Error('Missing --principal <id> argument');
+  }
+
+  const result = await postToServer(option, '/v1/audit/erasure', { principal });
+  console.log(JSON.stringify(result, null, 2));
+}
+
+async function handleAuditLogRetention(args: string[]): Promise<void> {
+  const result = await postToServer(readOptions(args), '/v1/audit/retention', {});
+  console.log(JSON.stringify(result, null, 2));
+}
+
 async function handleHealth(): Promise<void> {
   const health = await mockDashboardAdapter.getHealthStatus();
   console.log(JSON.stringify(health.data, null, 2));
@@ -154,6 +286,22 @@ async function main(): Promise<void> {
         break;
 
       case 'audit':
+        if (args[1] === 'query') {
+          await handleAuditLogQuery(args.slice(2));
+          break;
+        }
+        if (args[1] === 'export') {
+          await handleAuditLogExport(args.slice(2));
+          break;
+        }
+        if (args[1] === 'erase') {
+          await handleAuditLogErase(args.slice(2));
+          break;
+        }
+        if (args[1] === 'retention') {
+          await handleAuditLogRetention(args.slice(2));
+          break;
+        }
         const signalIdx = args.indexOf('--signal');
         if (signalIdx === -1 || !args[signalIdx + 1]) {
           throw new Error('Missing --signal <json> argument');
@@ -172,6 +320,11 @@ async function main(): Promise<void> {
         console.error('  rbac --principal <id>');
         console.error('  finops --resource <id>');
         console.error('  audit --signal <json>');
+        console.error('  audit query --store <file> [--principal <id>] [--resource <id>] [--outcome <outcome>]');
+        console.error('              [--request-id <id>] [--from <iso>] [--to <iso>] [--limit <n>] [--cursor <cursor>]');
+        console.error('  audit export --format <ocsf|cef|csv> --store <file> [--out <file>] [query filters]');
+        console.error('  audit erase --principal <id> --server <url> --token <token>');
+        console.error('  audit retention --server <url> --token <token>');
         console.error('  health');
         process.exit(1);
     }
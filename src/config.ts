@@ -0,0 +1,363 @@
+/**
+ * LLM-Governance-Core Configuration
+ *
+ * Reads adapter wiring from the process environment so entry points (server, CLI)
+ * can build an AdapterCollection without code changes.
+ */
+
+import * as path from 'path';
+
+import type {
+  AdapterCollection,
+  AdapterConfig,
+  AdapterConfigMap,
+  AdapterFactoryRegistry,
+} from './adapters';
+import { httpAdapterFactories } from './adapters/http';
+import type { ResilienceOptions } from './adapters/resilience';
+import { readGuardrailsFile } from './guardrails';
+import { openAuditStore, parseAuditRetentionPolicy } from './audit';
+import { FileOutboxStore } from './outbox';
+import { readRedactionFile } from './redaction';
+import type { CostEnforcementAction, DegradationMode, DegradationPolicy } from './types';
+import type { GovernanceCoreOptions, GovernanceSettingsOverrides } from './lib';
+import type { ServerOptions } from './server';
+
+/**
+ * Environment variable prefix for each adapter
+ * e.g. GOVERNANCE_POLICY_ENGINE_URL, GOVERNANCE_POLICY_ENGINE_API_KEY
+ */
+const ADAPTER_ENV_PREFIXES: Record<keyof AdapterCollection, string> = {
+  policyEngine: 'GOVERNANCE_POLICY_ENGINE',
+  costOps: 'GOVERNANCE_COSTOPS',
+  analyticsHub: 'GOVERNANCE_ANALYTICS_HUB',
+  configManager: 'GOVERNANCE_CONFIG_MANAGER',
+  schemaRegistry: 'GOVERNANCE_SCHEMA_REGISTRY',
+  dashboard: 'GOVERNANCE_DASHBOARD',
+};
+
+function readNumber(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const raw = env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid configuration: ${name} must be a non-negative number`);
+  }
+  return value;
+}
+
+/**
+ * Build AdapterConfig for every adapter from environment variables
+ *
+ * Recognized variables per adapter prefix:
+ *   <PREFIX>_URL (required), <PREFIX>_API_KEY, <PREFIX>_TIMEOUT_MS,
+ *   <PREFIX>_MAX_RETRIES, <PREFIX>_BACKOFF_MS
+ *
+ * @throws Error if a required URL is missing or a numeric value is malformed
+ */
+export function loadAdapterConfigs(env: NodeJS.ProcessEnv = process.env): AdapterConfigMap {
+  const configs = {} as AdapterConfigMap;
+
+  for (const key of Object.keys(ADAPTER_ENV_PREFIXES) as Array<keyof AdapterCollection>) {
+    const prefix = ADAPTER_ENV_PREFIXES[key];
+    const baseUrl = env[`${prefix}_URL`];
+
+    if (!baseUrl || baseUrl.trim() === '') {
+      throw new Error(`Invalid configuration: ${prefix}_URL is required`);
+    }
+
+    const config: AdapterConfig = { baseUrl };
+
+    if (env[`${prefix}_API_KEY`]) {
+      config.apiKey = env[`${prefix}_API_KEY`];
+    }
+
+    const timeout = readNumber(env, `${prefix}_TIMEOUT_MS`);
+    if (timeout !== undefined) {
+      config.timeout = timeout;
+    }
+
+    const maxRetries = readNumber(env, `${prefix}_MAX_RETRIES`);
+    if (maxRetries !== undefined) {
+      config.retryPolicy = {
+        maxRetries,
+        backoffMs: readNumber(env, `${prefix}_BACKOFF_MS`) ?? 100,
+      };
+    }
+
+    configs[key] = config;
+  }
+
+  return configs;
+}
+
+/**
+ * Build resilience options for every adapter from its AdapterConfig (timeout and retry policy) and environment variables
+ *
+ * A circuit breaker is added when <PREFIX>_CIRCUIT_FAILURE_THRESHOLD is set;
+ * <PREFIX>_CIRCUIT_RESET_MS sets how long it stays open (defaults to 30000).
+ *
+ * @throws Error if a threshold is not a positive integer or a numeric value is malformed
+ */
+export function loadResilienceOptions(
+  env: NodeJS.ProcessEnv = process.env,
+  configs: AdapterConfigMap = loadAdapterConfigs(env)
+): Record<keyof AdapterCollection, ResilienceOptions> {
+  const options = {} as Record<keyof AdapterCollection, ResilienceOptions>;
+
+  for (const key of Object.keys(ADAPTER_ENV_PREFIXES) as Array<keyof AdapterCollection>) {
+    const prefix = ADAPTER_ENV_PREFIXES[key];
+    const { timeout, retryPolicy } = configs[key];
+    const failureThreshold = readNumber(env, `${prefix}_CIRCUIT_FAILURE_THRESHOLD`);
+
+    if (failureThreshold !== undefined && (!Number.isInteger(failureThreshold) || failureThreshold < 1)) {
+      throw new Error(`Invalid configuration: ${prefix}_CIRCUIT_FAILURE_THRESHOLD must be a positive integer`);
+    }
+
+    options[key] = {
+      timeout,
+      retryPolicy,
+      ...(failureThreshold !== undefined
+        ? { circuitBreaker: { failureThreshold, resetTimeoutMs: readNumber(env, `${prefix}_CIRCUIT_RESET_MS`) ?? 30000 } }
+        : {}),
+    };
+  }
+
+  return options;
+}
+
+/**
+ * Load the adapter factory registry named by GOVERNANCE_ADAPTER_FACTORIES
+ *
+ * The module must export an AdapterFactoryRegistry as `adapterFactories` or as its default export.
+ * Falls back to the reference HTTP adapters when the variable is unset.
+ */
+export function loadAdapterFactories(env: NodeJS.ProcessEnv = process.env): AdapterFactoryRegistry {
+  const modulePath = env.GOVERNANCE_ADAPTER_FACTORIES;
+
+  if (!modulePath || modulePath.trim() === '') {
+    return httpAdapterFactories;
+  }
+
+  const loaded = require(path.resolve(modulePath));
+  const registry = (loaded.adapterFactories ?? loaded.default) as AdapterFactoryRegistry | undefined;
+
+  if (!registry) {
+    throw new Error(`Invalid configuration: ${modulePath} does not export adapterFactories`);
+  }
+
+  return registry;
+}
+
+const DEGRADATION_MODES: DegradationMode[] = ['fail-open', 'fail-closed', 'best-effort'];
+const DEGRADATION_STAGES: string[] = ['rbac', 'policy', 'quota', 'cost', 'analytics', 'audit'];
+const DECISION_STAGES: string[] = ['rbac', 'policy', 'quota'];
+
+/**
+ * Read per-stage degradation modes from GOVERNANCE_DEGRADATION_<STAGE>
+ * (RBAC, POLICY, QUOTA, COST, ANALYTICS, AUDIT). Unset stages keep their defaults.
+ *
+ * @throws Error if a value is not a known mode, or a decision stage is set to best-effort
+ */
+export function loadDegradationPolicy(env: NodeJS.ProcessEnv = process.env): Partial<DegradationPolicy> {
+  const policy: Partial<DegradationPolicy> = {};
+
+  for (const stage of DEGRADATION_STAGES) {
+    const name = `GOVERNANCE_DEGRADATION_${stage.toUpperCase()}`;
+    const raw = env[name];
+    if (raw === undefined || raw.trim() === '') {
+      continue;
+    }
+
+    (policy as Record<string, DegradationMode>)[stage] = parseDegradationMode(stage, raw.trim(), name);
+  }
+
+  return policy;
+}
+
+function parseDegradationMode(stage: string, value: unknown, name: string): DegradationMode {
+  const mode = value as DegradationMode;
+  if (!DEGRADATION_MODES.includes(mode) || (DECISION_STAGES.includes(stage) && mode === 'best-effort')) {
+    throw new Error(`Invalid configuration: ${name} must be one of ${DECISION_STAGES.includes(stage) ? 'fail-open, fail-closed' : DEGRADATION_MODES.join(', ')}`);
+  }
+  return mode;
+}
+
+const COST_ENFORCEMENT_ACTIONS: CostEnforcementAction[] = ['deny', 'warn', 'require-approval'];
+
+/**
+ * Read GovernanceCore options from the environment
+ * GOVERNANCE_ENFORCE_RBAC=true enables the RBAC gate and GOVERNANCE_ENFORCE_QUOTAS=true the quota stage;
+ * GOVERNANCE_COST_ENFORCEMENT enables budget admission control;
+ * GOVERNANCE_PRICING_FILE or GOVERNANCE_PRICING_CONFIG_KEY enables the pricing catalog;
+ * GOVERNANCE_CACHE_TTL_MS enables the RBAC and FinOps caches, and GOVERNANCE_CACHE_POLICY_TTL_MS the policy cache;
+ * GOVERNANCE_LIVE_RELOAD=true enables live reload, reading settings from GOVERNANCE_SETTINGS_CONFIG_KEY if set;
+ * GOVERNANCE_GUARDRAILS=true enables the PII guardrails, and GOVERNANCE_GUARDRAILS_FILE reads guardrail options from a file;
+ * GOVERNANCE_AUDIT_LOG records audit signals in a local JSONL or SQLite file (see openAuditStore),
+ * with GOVERNANCE_AUDIT_RETENTION (e.g. "allowed=30,denied=365,*=90") as its retention windows in days;
+ * GOVERNANCE_REDACTION_FILE reads redaction rules for published audit signals and analytics events;
+ * GOVERNANCE_OUTBOX_FILE queues dashboard events in a file, with GOVERNANCE_OUTBOX_DEAD_LETTER_FILE and
+ * GOVERNANCE_OUTBOX_MAX_ATTEMPTS as optional overrides.
+ *
+ * @throws Error if GOVERNANCE_COST_ENFORCEMENT is not a known action, a TTL is malformed, the guardrails or redaction file
+ * is invalid, the audit database cannot be opened, the retention windows are malformed or GOVERNANCE_OUTBOX is set
+ * without GOVERNANCE_OUTBOX_FILE
+ */
+export function loadGovernanceOptions(env: NodeJS.ProcessEnv = process.env): GovernanceCoreOptions {
+  const costAction = env.GOVERNANCE_COST_ENFORCEMENT?.trim();
+
+  if (costAction && !COST_ENFORCEMENT_ACTIONS.includes(costAction as CostEnforcementAction)) {
+    throw new Error(`Invalid configuration: GOVERNANCE_COST_ENFORCEMENT must be one of ${COST_ENFORCEMENT_ACTIONS.join(', ')}`);
+  }
+
+  const cacheTtl = readNumber(env, 'GOVERNANCE_CACHE_TTL_MS');
+  const settingsKey = env.GOVERNANCE_SETTINGS_CONFIG_KEY?.trim();
+  const guardrailsFile = env.GOVERNANCE_GUARDRAILS_FILE?.trim();
+  const policyCacheTtl = readNumber(env, 'GOVERNANCE_CACHE_POLICY_TTL_MS');
+  const pricingFile = env.GOVERNANCE_PRICING_FILE?.trim();
+  const pricingKey = env.GOVERNANCE_PRICING_CONFIG_KEY?.trim();
+  const auditLog = env.GOVERNANCE_AUDIT_LOG?.trim();
+  const auditRetention = env.GOVERNANCE_AUDIT_RETENTION?.trim();
+  const redactionFile = env.GOVERNANCE_REDACTION_FILE?.trim();
+  const outboxFile = env.GOVERNANCE_OUTBOX_FILE?.trim();
+  const deadLetterFile = env.GOVERNANCE_OUTBOX_DEAD_LETTER_FILE?.trim();
+  const outboxAttempts = readNumber(env, 'GOVERNANCE_OUTBOX_MAX_ATTEMPTS');
+
+  if (auditRetention && !auditLog) {
+    throw new Error('Invalid configuration: GOVERNANCE_AUDIT_RETENTION requires GOVERNANCE_AUDIT_LOG');
+  }
+  // An in-memory queue would lose undelivered audit events on every restart
+  if (env.GOVERNANCE_OUTBOX === 'true' && !outboxFile) {
+    throw new Error('Invalid configuration: GOVERNANCE_OUTBOX requires GOVERNANCE_OUTBOX_FILE');
+  }
+
+  return {
+    degradation: loadDegradationPolicy(env),
+    enforceRBAC: env.GOVERNANCE_ENFORCE_RBAC === 'true',
+    enforceQuotas: env.GOVERNANCE_ENFORCE_QUOTAS === 'true',
+    ...(costAction ? { costEnforcement: { action: costAction as CostEnforcementAction } } : {}),
+    ...(pricingFile || pricingKey
+      ? { pricing: pricingFile ? { file: path.resolve(pricingFile) } : { configKey: pricingKey } }
+      : {}),
+    ...(cacheTtl !== undefined || policyCacheTtl !== undefined
+      ? { cache: { rbacTtlMs: cacheTtl, finopsTtlMs: cacheTtl, policyTtlMs: policyCacheTtl } }
+      : {}),
+    ...(env.GOVERNANCE_LIVE_RELOAD === 'true' ? { liveReload: settingsKey ? { settingsKey } : {} } : {}),
+    ...(guardrailsFile
+      ? { guardrails: readGuardrailsFile(path.resolve(guardrailsFile)) }
+      : env.GOVERNANCE_GUARDRAILS === 'true' ? { guardrails: {} } : {}),
+    ...(auditLog
+      ? {
+        audit: {
+          store: openAuditStore(path.resolve(auditLog)),
+          ...(auditRetention ? { retention: parseAuditRetentionPolicy(auditRetention, 'GOVERNANCE_AUDIT_RETENTION') } : {}),
+        },
+      }
+      : {}),
+    ...(redactionFile ? { redaction: readRedactionFile(path.resolve(redactionFile)) } : {}),
+    ...(outboxFile
+      ? {
+        outbox: {
+          store: new FileOutboxStore(path.resolve(outboxFile), deadLetterFile ? path.resolve(deadLetterFile) : undefined),
+          maxAttempts: outboxAttempts,
+        },
+      }
+      : {}),
+  };
+}
+
+const MIN_ADMIN_TOKEN_LENGTH = 16;
+
+/**
+ * Read HTTP server options from the environment
+ * GOVERNANCE_ADMIN_TOKENS (e.g. "dpo=<token>,ops=<token>") lists the bearer tokens accepted on the admin routes,
+ * each under the identity recorded as the requester.
+ *
+ * @throws Error if an entry is not an identity=token pair, a token is shorter than 16 characters or is reused
+ */
+export function loadServerOptions(env: NodeJS.ProcessEnv = process.env): ServerOptions {
+  const raw = env.GOVERNANCE_ADMIN_TOKENS?.trim();
+  if (!raw) {
+    return {};
+  }
+
+  const adminTokens: Record<string, string> = {};
+  for (const entry of raw.split(',')) {
+    const separator = entry.indexOf('=');
+    const identity = entry.slice(0, separator).trim();
+    const token = entry.slice(separator + 1).trim();
+
+    if (separator === -1 || !identity || token.length < MIN_ADMIN_TOKEN_LENGTH) {
+      throw new Error(`Invalid configuration: GOVERNANCE_ADMIN_TOKENS entries must be identity=token with tokens of at least ${MIN_ADMIN_TOKEN_LENGTH} characters`);
+    }
+    if (Object.values(adminTokens).includes(token)) {
+      throw new Error('Invalid configuration: GOVERNANCE_ADMIN_TOKENS must not reuse a token');
+    }
+    adminTokens[identity] = token;
+  }
+
+  return { adminTokens };
+}
+
+/**
+ * Validate governance settings read from Config Manager for live reload
+ * Every field is optional; fields that are present override the options GovernanceCore was built with,
+ * and `costEnforcement: null` turns budget admission control off.
+ *
+ * @throws Error if a field has the wrong type or an unknown mode or action
+ */
+export function parseGovernanceSettings(value: unknown, key: string): GovernanceSettingsOverrides {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Invalid configuration: ${key} must be an object`);
+  }
+
+  const settings = value as Record<string, unknown>;
+  const overrides: GovernanceSettingsOverrides = {};
+
+  for (const field of ['enforceRBAC', 'enforceQuotas'] as const) {
+    if (settings[field] !== undefined) {
+      if (typeof settings[field] !== 'boolean') {
+        throw new Error(`Invalid configuration: ${key}.${field} must be a boolean`);
+      }
+      overrides[field] = settings[field] as boolean;
+    }
+  }
+
+  if (settings.degradation !== undefined) {
+    if (!settings.degradation || typeof settings.degradation !== 'object') {
+      throw new Error(`Invalid configuration: ${key}.degradation must be an object`);
+    }
+
+    const degradation: Partial<DegradationPolicy> = {};
+    for (const [stage, mode] of Object.entries(settings.degradation)) {
+      if (!DEGRADATION_STAGES.includes(stage)) {
+        throw new Error(`Invalid configuration: ${key}.degradation.${stage} is not a governance stage`);
+      }
+      (degradation as Record<string, DegradationMode>)[stage] = parseDegradationMode(stage, mode, `${key}.degradation.${stage}`);
+    }
+    overrides.degradation = degradation;
+  }
+
+  if (settings.costEnforcement === null) {
+    overrides.costEnforcement = null;
+  } else if (settings.costEnforcement !== undefined) {
+    const action = (settings.costEnforcement as { action?: unknown }).action as CostEnforcementAction;
+    if (!COST_ENFORCEMENT_ACTIONS.includes(action)) {
+      throw new Error(`Invalid configuration: ${key}.costEnforcement.action must be one of ${COST_ENFORCEMENT_ACTIONS.join(', ')}`);
+    }
+    overrides.costEnforcement = { action };
+  }
+
+  if (settings.usageOverrunThreshold !== undefined) {
+    const threshold = settings.usageOverrunThreshold;
+    if (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold <= 0) {
+      throw new Error(`Invalid configuration: ${key}.usageOverrunThreshold must be a positive number`);
+    }
+    overrides.usageOverrunThreshold = threshold;
+  }
+
+  return overrides;
+}
@@ -0,0 +1,82 @@
+/**
+ * LLM-Governance-Core Errors
+ *
+ * Typed errors shared by the core and the handlers, so transport layers can map them to status codes.
+ */
+
+/**
+ * Raised when caller input fails validation
+ * Transport layers map this to a client error (e.g. HTTP 400)
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Raised when the caller did not authenticate as someone allowed to make the request
+ * Transport layers map this to HTTP 401
+ */
+export class UnauthorizedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * Raised when the caller refers to something GovernanceCore does not know
+ * Transport layers map this to HTTP 404
+ */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Raised when the caller's request conflicts with what was already recorded
+ * Transport layers map this to HTTP 409
+ */
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Raised when the caller uses a feature this instance was not configured with (e.g. the audit log or the outbox)
+ * Transport layers map this to HTTP 501
+ */
+export class NotConfiguredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotConfiguredError';
+  }
+}
+
+/**
+ * Raised when an upstream adapter fails or returns an unusable response
+ * Transport layers map this to HTTP 502; any other unclassified error is an internal one
+ */
+export class UpstreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+const TYPED_ERRORS = [ValidationError, UnauthorizedError, NotFoundError, ConflictError, NotConfiguredError, UpstreamError];
+
+/**
+ * Prefix an error's message with what was being done, keeping its class so transport layers still classify it
+ */
+export function withContext(prefix: string, error: unknown): Error {
+  const message = `${prefix}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  const ErrorClass = TYPED_ERRORS.find((candidate) => error instanceof candidate);
+  return ErrorClass ? new ErrorClass(message) : new Error(message);
+}
@@ -0,0 +1,54 @@
+/**
+ * LLM-Governance-Core Glob Matching
+ *
+ * Wildcard matching for identifiers such as `model:gpt-*` or `llm:*`.
+ * `*` matches any run of characters (including none) and `?` matches exactly one.
+ */
+
+// Patterns can come from callers (e.g. a requested scope), so the cache is a bounded LRU
+const MAX_CACHED_PATTERNS = 500;
+const patternCache = new Map<string, RegExp>();
+
+function compile(pattern: string): RegExp {
+  let compiled = patternCache.get(pattern);
+
+  if (compiled) {
+    // Map iteration follows insertion order; re-inserting marks the pattern as most recently used
+    patternCache.delete(pattern);
+    patternCache.set(pattern, compiled);
+  } else {
+    const source = pattern
+      .split('')
+      .map((char) => {
+        if (char === '*') return '.*';
+        if (char === '?') return '.';
+        return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    compiled = new RegExp(`^${source}$`);
+    patternCache.set(pattern, compiled);
+
+    if (patternCache.size > MAX_CACHED_PATTERNS) {
+      patternCache.delete(patternCache.keys().next().value as string);
+    }
+  }
+
+  return compiled;
+}
+
+/**
+ * Whether a value matches a glob pattern
+ */
+export function matchesGlob(pattern: string, value: string): boolean {
+  if (pattern === '*' || pattern === value) {
+    return true;
+  }
+  return compile(pattern).test(value);
+}
+
+/**
+ * Whether a value matches any of the given glob patterns
+ */
+export function matchesAnyGlob(patterns: string[], value: string): boolean {
+  return patterns.some((pattern) => matchesGlob(pattern, value));
+}
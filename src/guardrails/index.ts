@@ -0,0 +1,279 @@
+/**
+ * LLM-Governance-Core Guardrails
+ *
+ * Content-safety detectors for prompts and completions: built-in PII patterns and
+ * configurable regex/keyword blocklists. Scans report offsets and counts, never the matched text.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+import type { GuardrailAction, GuardrailFinding, GuardrailResult, PiiCategory } from '../types';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface GuardrailOptions {
+  /** Built-in PII detectors; `false` disables them (defaults to every category with the redact action) */
+  pii?: PiiGuardrailOptions | false;
+
+  /** Regex and keyword blocklists */
+  blocklists?: BlocklistRule[];
+}
+
+export interface PiiGuardrailOptions {
+  /** Categories to detect (defaults to all) */
+  categories?: PiiCategory[];
+
+  /** Action for every PII finding (default redact) */
+  action?: GuardrailAction;
+}
+
+export interface BlocklistRule {
+  id: string;
+
+  /** Regular expressions (JavaScript syntax, without delimiters) */
+  patterns?: string[];
+
+  /** Words or phrases matched on word boundaries */
+  keywords?: string[];
+
+  action: GuardrailAction;
+
+  /** Match case-insensitively (default true) */
+  ignoreCase?: boolean;
+}
+
+export const PII_CATEGORIES: PiiCategory[] = ['email', 'phone', 'credit-card', 'api-key'];
+const GUARDRAIL_ACTIONS: GuardrailAction[] = ['redact', 'block', 'flag'];
+
+const PII_PATTERNS: Record<PiiCategory, RegExp> = {
+  'api-key': /\b(?:sk-[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abpr]-[A-Za-z0-9-]{10,})\b/g,
+  'credit-card': /\b\d(?:[ -]?\d){12,18}\b/g,
+  email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  phone: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)|\b\d{3})[\s.-]?\d{3}[\s.-]?\d{4}\b/g,
+};
+// Earlier categories win when matches overlap (a card number is not also a phone number)
+const PII_PRIORITY: PiiCategory[] = ['api-key', 'credit-card', 'email', 'phone'];
+
+/**
+ * Validate guardrail options, e.g. as read from a file
+ *
+ * @throws Error if an action, category or pattern is invalid
+ */
+export function parseGuardrailOptions(value: unknown, source: string): GuardrailOptions {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Invalid guardrails ${source}: expected an object`);
+  }
+
+  const options = value as Record<string, unknown>;
+
+  if (options.pii !== undefined && options.pii !== false) {
+    const pii = (options.pii || {}) as Record<string, unknown>;
+    if (pii.action !== undefined && !GUARDRAIL_ACTIONS.includes(pii.action as GuardrailAction)) {
+      throw new Error(`Invalid guardrails ${source}: pii.action must be one of ${GUARDRAIL_ACTIONS.join(', ')}`);
+    }
+    if (pii.categories !== undefined
+      && (!Array.isArray(pii.categories) || pii.categories.some((category) => !PII_CATEGORIES.includes(category)))) {
+      throw new Error(`Invalid guardrails ${source}: pii.categories must be a list of ${PII_CATEGORIES.join(', ')}`);
+    }
+  }
+
+  if (options.blocklists !== undefined) {
+    if (!Array.isArray(options.blocklists)) {
+      throw new Error(`Invalid guardrails ${source}: blocklists must be a list`);
+    }
+
+    const ids = new Set<string>();
+    options.blocklists.forEach((candidate, index) => {
+      const at = `${source} blocklists[${index}]`;
+      const rule = (candidate || {}) as Record<string, unknown>;
+
+      if (typeof rule.id !== 'string' || rule.id.trim() === '' || ids.has(rule.id)) {
+        throw new Error(`Invalid guardrails ${at}: id must be a unique non-empty string`);
+      }
+      ids.add(rule.id);
+
+      if (!GUARDRAIL_ACTIONS.includes(rule.action as GuardrailAction)) {
+        throw new Error(`Invalid guardrails ${at}: action must be one of ${GUARDRAIL_ACTIONS.join(', ')}`);
+      }
+      for (const field of ['patterns', 'keywords']) {
+        const list = rule[field];
+        if (list !== undefined && (!Array.isArray(list) || list.some((item) => typeof item !== 'string' || item === ''))) {
+          throw new Error(`Invalid guardrails ${at}: ${field} must be a list of non-empty strings`);
+        }
+      }
+      if (!rule.patterns && !rule.keywords) {
+        throw new Error(`Invalid guardrails ${at}: patterns or keywords are required`);
+      }
+      for (const pattern of (rule.patterns as string[] | undefined) ?? []) {
+        try {
+          new RegExp(pattern);
+        } catch (error) {
+          throw new Error(`Invalid guardrails ${at}: ${(error as Error).message}`);
+        }
+      }
+      if (rule.ignoreCase !== undefined && typeof rule.ignoreCase !== 'boolean') {
+        throw new Error(`Invalid guardrails ${at}: ignoreCase must be a boolean`);
+      }
+    });
+  }
+
+  return options as GuardrailOptions;
+}
+
+/**
+ * Read JSON or YAML guardrail options from disk
+ * Synchronous because options are read once while an entry point starts.
+ *
+ * @throws Error if the file cannot be read or is not valid
+ */
+export function readGuardrailsFile(filePath: string): GuardrailOptions {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const value = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  return parseGuardrailOptions(value, path.basename(filePath));
+}
+
+// ============================================================================
+// Scanner
+// ============================================================================
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  action: GuardrailAction;
+  accept?: (match: string) => boolean;
+}
+
+interface Match {
+  detector: Detector;
+  start: number;
+  end: number;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Luhn checksum, so arbitrary long numbers are not reported as card numbers
+ */
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  let sum = 0;
+
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * Compiled guardrail detectors
+ */
+export class GuardrailScanner {
+  private detectors: Detector[];
+
+  /**
+   * @throws Error if the options are invalid
+   */
+  constructor(options: GuardrailOptions = {}) {
+    parseGuardrailOptions(options, 'options');
+    this.detectors = [];
+
+    // Blocklists come first so operator rules win over overlapping PII matches
+    for (const rule of options.blocklists ?? []) {
+      const flags = rule.ignoreCase === false ? 'g' : 'gi';
+      const sources = [
+        ...(rule.patterns ?? []),
+        ...(rule.keywords ?? []).map((keyword) => `(?<![\\w])${escapeRegExp(keyword)}(?![\\w])`),
+      ];
+      this.detectors.push({ name: `blocklist:${rule.id}`, pattern: new RegExp(sources.map((source) => `(?:${source})`).join('|'), flags), action: rule.action });
+    }
+
+    if (options.pii !== false) {
+      const categories = options.pii?.categories ?? PII_CATEGORIES;
+      const action = options.pii?.action ?? 'redact';
+
+      for (const category of PII_PRIORITY.filter((candidate) => categories.includes(candidate))) {
+        this.detectors.push({
+          name: `pii:${category}`,
+          pattern: PII_PATTERNS[category],
+          action,
+          ...(category === 'credit-card' ? { accept: passesLuhn } : {}),
+        });
+      }
+    }
+  }
+
+  /**
+   * Scan text; overlapping matches are attributed to the earliest detector
+   */
+  scan(text: string, target: GuardrailResult['target']): GuardrailResult {
+    const matches: Match[] = [];
+
+    for (const detector of this.detectors) {
+      for (const match of text.matchAll(detector.pattern)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (end === start || (detector.accept && !detector.accept(match[0]))) {
+          continue;
+        }
+        if (!matches.some((existing) => start < existing.end && existing.start < end)) {
+          matches.push({ detector, start, end });
+        }
+      }
+    }
+
+    matches.sort((a, b) => a.start - b.start);
+
+    const findings = new Map<string, GuardrailFinding>();
+    for (const { detector, start, end } of matches) {
+      let finding = findings.get(detector.name);
+      if (!finding) {
+        finding = { detector: detector.name, action: detector.action, matches: 0, locations: [] };
+        findings.set(detector.name, finding);
+      }
+      finding.matches++;
+      finding.locations.push({ start, end });
+    }
+
+    const redactions = matches.filter(({ detector }) => detector.action === 'redact');
+    const result: GuardrailResult = {
+      target,
+      blocked: matches.some(({ detector }) => detector.action === 'block'),
+      findings: Array.from(findings.values()),
+    };
+
+    if (redactions.length > 0) {
+      let redacted = '';
+      let offset = 0;
+      for (const { detector, start, end } of redactions) {
+        redacted += `${text.slice(offset, start)}[REDACTED:${detector.name}]`;
+        offset = end;
+      }
+      result.redactedText = redacted + text.slice(offset);
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Human-readable summary of findings, for decision reasons
+ */
+export function describeGuardrailFindings(result: GuardrailResult, action: GuardrailAction): string[] {
+  return result.findings
+    .filter((finding) => finding.action === action)
+    .map((finding) => `Guardrail ${finding.detector} matched ${finding.matches} time(s) in the ${result.target} (${action})`);
+}
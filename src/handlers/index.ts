@@ -8,10 +8,27 @@
 import type {
   GovernanceRequest,
   GovernanceDecision,
+  GovernanceBatchResult,
   RBACContext,
   FinOpsSummary,
   AuditSignal,
+  UsageRecord,
+  UsageReconciliation,
+  ObligationFulfillment,
+  CompletionCheck,
+  CompletionEvaluation,
+  AuditQuery,
+  AuditQueryPage,
+  AuditErasureRequest,
+  AuditErasureResult,
+  AuditRetentionResult,
+  OutboxMetrics,
 } from '../types.js';
+import { resolveAuditQuery } from '../audit/query.js';
+import { ValidationError } from '../errors.js';
+
+// Errors are defined alongside the core so it does not depend on this layer; re-exported for existing callers
+export { ValidationError, UnauthorizedError, NotFoundError, ConflictError, NotConfiguredError, UpstreamError } from '../errors.js';
 
 // ============================================================================
 // GovernanceCore Interface
@@ -22,84 +39,198 @@ import type {
  */
 export interface GovernanceCore {
   evaluateGovernance(request: GovernanceRequest): Promise<GovernanceDecision>;
-  resolveRBAC(principal: string): Promise<RBACContext>;
-  getFinOpsSummary(resourceId: string): Promise<FinOpsSummary>;
-  emitAuditSignal(signal: AuditSignal): Promise<void>;
+  evaluateGovernanceBatch(requests: GovernanceRequest[], options?: { concurrency?: number; auditBatchSize?: number }): Promise<GovernanceBatchResult[]>;
+  resolveRBAC(principal: string, options?: { scope?: string }): Promise<RBACContext>;
+  getFinOpsSummary(resourceId: string, subjects?: { principal?: string; team?: string; tags?: string[] }): Promise<FinOpsSummary>;
+  emitAuditSignal(signal: AuditSignal): Promise<string>;
+  recordUsage(usage: UsageRecord): Promise<UsageReconciliation>;
+  reportObligationFulfillment(report: ObligationFulfillment): Promise<void>;
+  evaluateCompletion(check: CompletionCheck): Promise<CompletionEvaluation>;
+  queryAudit(query: AuditQuery): Promise<AuditQueryPage>;
+  eraseAuditPrincipal(principal: string, requestedBy: string): Promise<AuditErasureResult>;
+  applyAuditRetention(): Promise<AuditRetentionResult>;
+  getOutboxMetrics(): Promise<OutboxMetrics>;
 }
 
 // ============================================================================
 // Validation Helpers
 // ============================================================================
 
+/** Largest batch accepted by handleGovernanceBatch */
+export const MAX_BATCH_SIZE = 1000;
+
 function validateGovernanceRequest(request: unknown): asserts request is GovernanceRequest {
   if (!request || typeof request !== 'object') {
-    throw new Error('Invalid request: must be an object');
+    throw new ValidationError('Invalid request: must be an object');
   }
 
   const req = request as Record<string, unknown>;
 
   if (!req.requestId || typeof req.requestId !== 'string' || req.requestId.trim() === '') {
-    throw new Error('Invalid request: requestId must be a non-empty string');
+    throw new ValidationError('Invalid request: requestId must be a non-empty string');
   }
 
   if (!req.resourceId || typeof req.resourceId !== 'string' || req.resourceId.trim() === '') {
-    throw new Error('Invalid request: resourceId must be a non-empty string');
+    throw new ValidationError('Invalid request: resourceId must be a non-empty string');
   }
 
   if (!req.action || typeof req.action !== 'string' || req.action.trim() === '') {
-    throw new Error('Invalid request: action must be a non-empty string');
+    throw new ValidationError('Invalid request: action must be a non-empty string');
   }
 
   if (!req.principal || typeof req.principal !== 'string' || req.principal.trim() === '') {
-    throw new Error('Invalid request: principal must be a non-empty string');
+    throw new ValidationError('Invalid request: principal must be a non-empty string');
   }
 
   if (req.context !== undefined && (typeof req.context !== 'object' || req.context === null || Array.isArray(req.context))) {
-    throw new Error('Invalid request: context must be an object if provided');
+    throw new ValidationError('Invalid request: context must be an object if provided');
+  }
+
+  // Token estimates are charged against shared quota counters
+  const context = (req.context ?? {}) as Record<string, unknown>;
+  for (const field of ['expectedTokens', 'expectedPromptTokens', 'expectedCompletionTokens']) {
+    const value = context[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0)) {
+      throw new ValidationError(`Invalid request: context.${field} must be a non-negative integer if provided`);
+    }
   }
 }
 
 function validatePrincipal(principal: unknown): asserts principal is string {
   if (typeof principal !== 'string' || principal.trim() === '') {
-    throw new Error('Invalid principal: must be a non-empty string');
+    throw new ValidationError('Invalid principal: must be a non-empty string');
+  }
+}
+
+function validateScope(scope: unknown): asserts scope is string | undefined {
+  if (scope !== undefined && (typeof scope !== 'string' || scope.trim() === '')) {
+    throw new ValidationError('Invalid scope: must be a non-empty string if provided');
   }
 }
 
 function validateResourceId(resourceId: unknown): asserts resourceId is string {
   if (typeof resourceId !== 'string' || resourceId.trim() === '') {
-    throw new Error('Invalid resourceId: must be a non-empty string');
+    throw new ValidationError('Invalid resourceId: must be a non-empty string');
   }
 }
 
 function validateAuditSignal(signal: unknown): asserts signal is AuditSignal {
   if (!signal || typeof signal !== 'object') {
-    throw new Error('Invalid audit signal: must be an object');
+    throw new ValidationError('Invalid audit signal: must be an object');
   }
 
   const sig = signal as Record<string, unknown>;
 
   if (!sig.timestamp || typeof sig.timestamp !== 'string' || sig.timestamp.trim() === '') {
-    throw new Error('Invalid audit signal: timestamp must be a non-empty string');
+    throw new ValidationError('Invalid audit signal: timestamp must be a non-empty string');
   }
 
   if (!sig.action || typeof sig.action !== 'string' || sig.action.trim() === '') {
-    throw new Error('Invalid audit signal: action must be a non-empty string');
+    throw new ValidationError('Invalid audit signal: action must be a non-empty string');
   }
 
   if (!sig.principal || typeof sig.principal !== 'string' || sig.principal.trim() === '') {
-    throw new Error('Invalid audit signal: principal must be a non-empty string');
+    throw new ValidationError('Invalid audit signal: principal must be a non-empty string');
   }
 
   if (!sig.resource || typeof sig.resource !== 'string' || sig.resource.trim() === '') {
-    throw new Error('Invalid audit signal: resource must be a non-empty string');
+    throw new ValidationError('Invalid audit signal: resource must be a non-empty string');
   }
 
   if (!sig.outcome || typeof sig.outcome !== 'string' || sig.outcome.trim() === '') {
-    throw new Error('Invalid audit signal: outcome must be a non-empty string');
+    throw new ValidationError('Invalid audit signal: outcome must be a non-empty string');
   }
 
   if (sig.metadata !== undefined && (typeof sig.metadata !== 'object' || sig.metadata === null || Array.isArray(sig.metadata))) {
-    throw new Error('Invalid audit signal: metadata must be an object if provided');
+    throw new ValidationError('Invalid audit signal: metadata must be an object if provided');
+  }
+}
+
+function validateUsageRecord(usage: unknown): asserts usage is UsageRecord {
+  if (!usage || typeof usage !== 'object') {
+    throw new ValidationError('Invalid usage: must be an object');
+  }
+
+  const rec = usage as Record<string, unknown>;
+
+  if (!rec.requestId || typeof rec.requestId !== 'string' || rec.requestId.trim() === '') {
+    throw new ValidationError('Invalid usage: requestId must be a non-empty string');
+  }
+
+  if (!rec.model || typeof rec.model !== 'string' || rec.model.trim() === '') {
+    throw new ValidationError('Invalid usage: model must be a non-empty string');
+  }
+
+  for (const field of ['promptTokens', 'completionTokens']) {
+    const value = rec[field];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new ValidationError(`Invalid usage: ${field} must be a non-negative integer`);
+    }
+  }
+}
+
+function validateObligationFulfillment(report: unknown): asserts report is ObligationFulfillment {
+  if (!report || typeof report !== 'object') {
+    throw new ValidationError('Invalid obligation report: must be an object');
+  }
+
+  const rep = report as Record<string, unknown>;
+
+  for (const field of ['requestId', 'obligationId']) {
+    const value = rep[field];
+    if (!value || typeof value !== 'string' || value.trim() === '') {
+      throw new ValidationError(`Invalid obligation report: ${field} must be a non-empty string`);
+    }
+  }
+
+  if (typeof rep.fulfilled !== 'boolean') {
+    throw new ValidationError('Invalid obligation report: fulfilled must be a boolean');
+  }
+
+  if (rep.details !== undefined && (typeof rep.details !== 'object' || rep.details === null || Array.isArray(rep.details))) {
+    throw new ValidationError('Invalid obligation report: details must be an object if provided');
+  }
+}
+
+function validateCompletionCheck(check: unknown): asserts check is CompletionCheck {
+  if (!check || typeof check !== 'object') {
+    throw new ValidationError('Invalid completion check: must be an object');
+  }
+
+  const chk = check as Record<string, unknown>;
+
+  for (const field of ['requestId', 'principal', 'resourceId']) {
+    const value = chk[field];
+    if (!value || typeof value !== 'string' || value.trim() === '') {
+      throw new ValidationError(`Invalid completion check: ${field} must be a non-empty string`);
+    }
+  }
+
+  if (typeof chk.completion !== 'string') {
+    throw new ValidationError('Invalid completion check: completion must be a string');
+  }
+}
+
+function validateAuditErasureRequest(request: unknown): asserts request is AuditErasureRequest {
+  if (!request || typeof request !== 'object') {
+    throw new ValidationError('Invalid audit erasure: must be an object');
+  }
+
+  const principal = (request as Record<string, unknown>).principal;
+  if (!principal || typeof principal !== 'string' || principal.trim() === '') {
+    throw new ValidationError('Invalid audit erasure: principal must be a non-empty string');
+  }
+}
+
+function validateAuditQuery(query: unknown): asserts query is AuditQuery {
+  if (!query || typeof query !== 'object') {
+    throw new ValidationError('Invalid audit query: must be an object');
+  }
+
+  try {
+    resolveAuditQuery(query as AuditQuery);
+  } catch (error) {
+    throw new ValidationError(error instanceof Error ? error.message : 'Invalid audit query');
   }
 }
 
@@ -115,7 +246,7 @@ function validateAuditSignal(signal: unknown): asserts signal is AuditSignal {
  * @param request - The governance request to evaluate
  * @param core - GovernanceCore instance for delegation
  * @returns Promise resolving to governance decision
- * @throws Error if request validation fails
+ * @throws ValidationError if request validation fails
  */
 export async function handleGovernanceRequest(
   request: GovernanceRequest,
@@ -128,6 +259,48 @@ export async function handleGovernanceRequest(
   return await core.evaluateGovernance(request);
 }
 
+/**
+ * Handles a batch of governance requests
+ *
+ * Validates each request; invalid requests are reported as per-item errors and the rest
+ * are delegated to core batch evaluation. Results are returned in request order.
+ *
+ * @param requests - The governance requests to evaluate
+ * @param core - GovernanceCore instance for delegation
+ * @returns Promise resolving to a decision or error per request
+ * @throws ValidationError if the batch itself is not a non-empty array within MAX_BATCH_SIZE
+ */
+export async function handleGovernanceBatch(
+  requests: GovernanceRequest[],
+  core: GovernanceCore
+): Promise<GovernanceBatchResult[]> {
+  if (!Array.isArray(requests) || requests.length === 0) {
+    throw new ValidationError('Invalid batch: requests must be a non-empty array');
+  }
+
+  if (requests.length > MAX_BATCH_SIZE) {
+    throw new ValidationError(`Invalid batch: at most ${MAX_BATCH_SIZE} requests are allowed`);
+  }
+
+  // Validate each request, keeping invalid ones as per-item errors
+  const results: Array<GovernanceBatchResult | undefined> = requests.map((request) => {
+    try {
+      validateGovernanceRequest(request);
+      return undefined;
+    } catch (error) {
+      const requestId = (request as unknown as Record<string, unknown> | null)?.requestId;
+      return { requestId: typeof requestId === 'string' ? requestId : '', error: (error as Error).message };
+    }
+  });
+
+  // Delegate valid requests to core orchestration
+  const valid = requests.filter((_, index) => results[index] === undefined);
+  const decided = valid.length > 0 ? await core.evaluateGovernanceBatch(valid) : [];
+
+  let next = 0;
+  return results.map((result) => result ?? decided[next++]);
+}
+
 /**
  * Handles RBAC resolution for a principal
  *
@@ -135,18 +308,21 @@ export async function handleGovernanceRequest(
  *
  * @param principal - The principal identifier to resolve
  * @param core - GovernanceCore instance for delegation
+ * @param scope - Optional scope path limiting which role bindings apply
  * @returns Promise resolving to RBAC context
- * @throws Error if principal validation fails
+ * @throws ValidationError if principal or scope validation fails
  */
 export async function handleRBACResolution(
   principal: string,
-  core: GovernanceCore
+  core: GovernanceCore,
+  scope?: string
 ): Promise<RBACContext> {
-  // Validate principal
+  // Validate principal and scope
   validatePrincipal(principal);
+  validateScope(scope);
 
   // Delegate to core orchestration
-  return await core.resolveRBAC(principal);
+  return await core.resolveRBAC(principal, scope === undefined ? {} : { scope });
 }
 
 /**
@@ -156,18 +332,20 @@ export async function handleRBACResolution(
  *
  * @param resourceId - The resource identifier to query
  * @param core - GovernanceCore instance for delegation
+ * @param subjects - Optional principal, team and tags used to find a budget
  * @returns Promise resolving to FinOps summary
- * @throws Error if resourceId validation fails
+ * @throws ValidationError if resourceId validation fails
  */
 export async function handleFinOpsQuery(
   resourceId: string,
-  core: GovernanceCore
+  core: GovernanceCore,
+  subjects?: { principal?: string; team?: string; tags?: string[] }
 ): Promise<FinOpsSummary> {
   // Validate resourceId
   validateResourceId(resourceId);
 
   // Delegate to core orchestration
-  return await core.getFinOpsSummary(resourceId);
+  return await core.getFinOpsSummary(resourceId, subjects);
 }
 
 /**
@@ -177,16 +355,148 @@ export async function handleFinOpsQuery(
  *
  * @param signal - The audit signal to emit
  * @param core - GovernanceCore instance for delegation
- * @returns Promise resolving when signal is emitted
- * @throws Error if signal validation fails
+ * @returns Promise resolving to the signal's audit ID once it is emitted
+ * @throws ValidationError if signal validation fails
  */
 export async function handleAuditEmission(
   signal: AuditSignal,
   core: GovernanceCore
-): Promise<void> {
+): Promise<string> {
   // Validate signal structure
   validateAuditSignal(signal);
 
   // Delegate to core orchestration
-  await core.emitAuditSignal(signal);
+  return core.emitAuditSignal(signal);
+}
+
+/**
+ * Handles post-call usage reporting
+ *
+ * Validates the usage record and delegates to core for CostOps reporting and reconciliation.
+ *
+ * @param usage - Token usage of a previously evaluated request
+ * @param core - GovernanceCore instance for delegation
+ * @returns Promise resolving to the reconciliation against the pre-call estimate
+ * @throws ValidationError if usage validation fails
+ */
+export async function handleUsageReport(
+  usage: UsageRecord,
+  core: GovernanceCore
+): Promise<UsageReconciliation> {
+  // Validate usage structure
+  validateUsageRecord(usage);
+
+  // Delegate to core orchestration
+  return await core.recordUsage(usage);
+}
+
+/**
+ * Handles obligation fulfillment reports
+ *
+ * Validates the report and delegates to core, which audits whether the obligation was honoured.
+ *
+ * @param report - Fulfillment of an obligation from an earlier decision
+ * @param core - GovernanceCore instance for delegation
+ * @throws ValidationError if report validation fails
+ */
+export async function handleObligationReport(
+  report: ObligationFulfillment,
+  core: GovernanceCore
+): Promise<void> {
+  // Validate report structure
+  validateObligationFulfillment(report);
+
+  // Delegate to core orchestration
+  await core.reportObligationFulfillment(report);
+}
+
+/**
+ * Handles post-call completion checks
+ *
+ * Validates the check and delegates to core, which scans the completion with the guardrails.
+ *
+ * @param check - Completion of a previously evaluated request
+ * @param core - GovernanceCore instance for delegation
+ * @returns Promise resolving to the guardrail verdict
+ * @throws ValidationError if check validation fails
+ */
+export async function handleCompletionEvaluation(
+  check: CompletionCheck,
+  core: GovernanceCore
+): Promise<CompletionEvaluation> {
+  // Validate check structure
+  validateCompletionCheck(check);
+
+  // Delegate to core orchestration
+  return await core.evaluateCompletion(check);
+}
+
+/**
+ * Handles audit log queries
+ *
+ * Validates the filters, limit and cursor and delegates to core for the lookup.
+ *
+ * @param query - Filters and pagination for the local audit log
+ * @param core - GovernanceCore instance for delegation
+ * @returns Promise resolving to one page of audit entries
+ * @throws ValidationError if query validation fails
+ */
+export async function handleAuditQuery(
+  query: AuditQuery,
+  core: GovernanceCore
+): Promise<AuditQueryPage> {
+  // Validate query structure
+  validateAuditQuery(query);
+
+  // Delegate to core orchestration
+  return await core.queryAudit(query);
+}
+
+/**
+ * Handles right-to-erasure requests
+ *
+ * Validates the request and delegates to core, which pseudonymizes the principal in the local audit log.
+ * Going through the serving instance keeps it the only writer of the log.
+ *
+ * @param request - Principal to erase
+ * @param core - GovernanceCore instance for delegation
+ * @param requestedBy - Authenticated identity of the caller, recorded on the audit:erasure entries
+ * @returns Promise resolving to the pseudonym and the entries changed
+ * @throws ValidationError if request validation fails
+ */
+export async function handleAuditErasure(
+  request: AuditErasureRequest,
+  core: GovernanceCore,
+  requestedBy: string
+): Promise<AuditErasureResult> {
+  // Validate request structure
+  validateAuditErasureRequest(request);
+
+  // Delegate to core orchestration
+  return await core.eraseAuditPrincipal(request.principal, requestedBy);
+}
+
+/**
+ * Handles audit retention runs
+ *
+ * Takes no input; delegates to core, which ages entries against its own clock and configured retention windows.
+ *
+ * @param core - GovernanceCore instance for delegation
+ * @returns Promise resolving to the entries expired
+ */
+export async function handleAuditRetention(core: GovernanceCore): Promise<AuditRetentionResult> {
+  // Delegate to core orchestration
+  return await core.applyAuditRetention();
+}
+
+/**
+ * Handles dashboard outbox metrics requests
+ *
+ * Takes no input; delegates to core for the queue depth, oldest pending event and delivery counters.
+ *
+ * @param core - GovernanceCore instance for delegation
+ * @returns Promise resolving to outbox metrics
+ */
+export async function handleOutboxMetrics(core: GovernanceCore): Promise<OutboxMetrics> {
+  return await core.getOutboxMetrics();
 }
@@ -2,7 +2,7 @@
  * LLM-Governance-Core
  *
  * Main orchestration layer - thin glue code that delegates to integrated systems.
- * No retry logic, no caching, no complex error handling.
+ * No retry logic and caching is opt-in; upstream failures are handled by a per-stage degradation policy.
  */
 
 import type {
@@ -11,220 +11,2510 @@ import type {
   PolicyEvaluationResult,
   FinOpsSummary,
   RBACContext,
+  RoleBinding,
   AuditSignal,
+  AppliedBudget,
+  BudgetViolation,
+  CostEnforcementAction,
+  CostEnforcementResult,
+  CostEstimate,
+  ModelPrice,
+  UsageRecord,
+  UsageReconciliation,
+  DegradationPolicy,
+  DegradationRecord,
+  GovernanceStage,
+  QuotaScopeType,
+  QuotaStatus,
+  GovernanceBatchResult,
+  GovernanceOutcome,
+  ApprovalStatus,
+  ApprovalTicket,
+  Obligation,
+  ObligationFulfillment,
+  GuardrailResult,
+  CompletionCheck,
+  CompletionEvaluation,
+  AuditChainVerification,
+  AuditErasureResult,
+  AuditRetentionResult,
+  AuditQuery,
+  AuditQueryPage,
+  AuditFilters,
+  OutboxDrainResult,
+  OutboxMetrics,
 } from './types';
 
 import type {
   AdapterCollection,
   PolicyEvaluationRequest,
+  PolicyEvaluationResult as PolicyEngineResult,
+  AdapterResponse,
   AnalyticsEvent,
+  ConfigValue,
+  CostMetrics,
+  GovernanceEvent,
 } from './adapters';
 
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+import { matchesGlob } from './glob';
+import { parseGovernanceSettings } from './config';
+import { GovernanceCache, hashContext } from './cache';
+import type { CacheName, CacheOptions, CacheStats, TtlCache } from './cache';
+import {
+  budgetCandidates,
+  budgetConfigKey,
+  evaluateBudget,
+  parseBudgetDefinition,
+  periodBounds,
+} from './budgets';
+import type { BudgetSubjects } from './budgets';
+import {
+  InMemoryQuotaStore,
+  expectedRequestTokens,
+  parseQuotaLimits,
+  quotaConfigKey,
+  quotaWindow,
+} from './quotas';
+import type { QuotaStore } from './quotas';
+import {
+  DEFAULT_PRICING_CONFIG_KEY,
+  estimateRequestCost,
+  findModelPrice,
+  loadPricingFile,
+  parsePricingCatalog,
+  tokenCost,
+} from './pricing';
+import { InMemoryApprovalStore, approverConfigKey, isApprovalExpired, parseApproverRoles } from './approvals';
+import type { ApprovalStore } from './approvals';
+import { parseObligations } from './obligations';
+import { GuardrailScanner, describeGuardrailFindings } from './guardrails';
+import type { GuardrailOptions } from './guardrails';
+import { AuditLog, InMemoryAuditStore, createAuditId } from './audit';
+import type { AuditRetentionPolicy, AuditStore } from './audit';
+import { formatAuditEntries, parseAuditExportFormat } from './audit/export';
+import type { AuditExportFormat } from './audit/export';
+import { resolveAuditQuery } from './audit/query';
+import { Redactor } from './redaction';
+import { AUDIT_SIGNAL_BATCH_SCHEMA_ID, AUDIT_SIGNAL_SCHEMA_ID } from './schemas';
+import type { RedactionOptions, RedactionTarget } from './redaction';
+import { Outbox } from './outbox';
+import { ConflictError, NotConfiguredError, NotFoundError, UpstreamError, ValidationError, withContext } from './errors';
+import type { OutboxOptions } from './outbox';
+
+/**
+ * Default degradation policy
+ * RBAC and policy failures deny; quota store, cost, analytics and audit outages never block traffic.
+ */
+export const DEFAULT_DEGRADATION_POLICY: DegradationPolicy = {
+  rbac: 'fail-closed',
+  policy: 'fail-closed',
+  quota: 'fail-open',
+  cost: 'best-effort',
+  analytics: 'best-effort',
+  audit: 'best-effort',
+};
+
+/**
+ * Optional behaviour for GovernanceCore
+ */
+export interface GovernanceCoreOptions {
+  /** Per-stage degradation modes, merged over DEFAULT_DEGRADATION_POLICY */
+  degradation?: Partial<DegradationPolicy>;
+
+  /** Deny requests whose action or resource falls outside the principal's RBAC context */
+  enforceRBAC?: boolean;
+
+  /** Count requests and tokens against configured quotas and deny requests that would exceed them */
+  enforceQuotas?: boolean;
+
+  /** Counter storage for quotas (defaults to an InMemoryQuotaStore) */
+  quotaStore?: QuotaStore;
+
+  /** Budget admission control; requests are checked against every applicable budget */
+  costEnforcement?: CostEnforcementOptions;
+
+  /** Actual/estimated usage ratio above which recordUsage emits an overrun audit signal (default 1.5) */
+  usageOverrunThreshold?: number;
+
+  /** Model pricing catalog used for cost estimates and token-only CostOps metrics */
+  pricing?: PricingOptions;
+
+  /** Cache RBAC contexts, FinOps summaries and optionally policy decisions */
+  cache?: CacheOptions;
+
+  /** Apply rbac.* and governance settings changes pushed by Config Manager without a restart */
+  liveReload?: LiveReloadOptions;
+
+  /** Ticket storage and expiry for requests that need approval */
+  approvals?: ApprovalOptions;
+
+  /** Scan context.prompt and completions for PII and blocklisted content */
+  guardrails?: GuardrailOptions;
+
+  /** Record every audit signal in a local hash-chained store before it is published */
+  audit?: AuditOptions;
+
+  /** Queue dashboard events and deliver them in the background with retries */
+  outbox?: OutboxOptions;
+
+  /** Drop, hash or mask fields of audit signals and analytics events before they are published or tracked */
+  redaction?: RedactionOptions;
+}
+
+/**
+ * Local audit log settings
+ */
+export interface AuditOptions {
+  /** Entry storage (defaults to an InMemoryAuditStore; see openAuditStore for durable stores) */
+  store?: AuditStore;
+
+  /** Retention windows applied by applyAuditRetention */
+  retention?: AuditRetentionPolicy;
+}
+
+/**
+ * Approval workflow settings
+ */
+export interface ApprovalOptions {
+  /** Ticket storage (defaults to an InMemoryApprovalStore) */
+  store?: ApprovalStore;
+
+  /** How long a ticket stays pending before it expires (default 86400) */
+  ttlSeconds?: number;
+
+  /** How long an approval applies to re-evaluations of the request before it expires (default 3600) */
+  approvedTtlSeconds?: number;
+}
+
+/**
+ * Live reload settings
+ */
+export interface LiveReloadOptions {
+  /** Config Manager key holding GovernanceSettingsOverrides (defaults to governance.settings) */
+  settingsKey?: string;
+}
+
+/**
+ * Settings that can be changed at runtime through the live reload settings key
+ * Present fields override the constructor options; `costEnforcement: null` disables budget admission control.
+ */
+export interface GovernanceSettingsOverrides {
+  degradation?: Partial<DegradationPolicy>;
+  enforceRBAC?: boolean;
+  enforceQuotas?: boolean;
+  costEnforcement?: CostEnforcementOptions | null;
+  usageOverrunThreshold?: number;
+}
+
+/** Config Manager key read for live settings when no other key is configured */
+export const DEFAULT_SETTINGS_CONFIG_KEY = 'governance.settings';
+
+/**
+ * Where the model pricing catalog is read from
+ * A file is loaded once; a Config Manager key is read on every lookup.
+ */
+export interface PricingOptions {
+  /** Local JSON or YAML catalog; takes precedence over configKey */
+  file?: string;
+
+  /** Config Manager key holding the catalog (defaults to finops.pricing) */
+  configKey?: string;
+}
+
+/**
+ * Budget admission control settings
+ */
+export interface CostEnforcementOptions {
+  /** What happens when a request would push a budget over its amount */
+  action: CostEnforcementAction;
+}
+
+/**
+ * Options for resolveRBAC
+ */
+export interface RBACResolutionOptions {
+  /** Scope path (e.g. "org:acme/project:alpha"); only bindings that apply within it are returned */
+  scope?: string;
+}
+
+/**
+ * Shape of `rbac.roles.<principal>` and `rbac.groups.<group>` config values
+ * `roles` are unscoped bindings; `bindings` may carry a scope. Only principals list `groups`.
+ */
+interface SubjectDefinition {
+  roles?: string[];
+  groups?: string[];
+  bindings?: Array<{ role: string; scope?: string }>;
+}
+
+/**
+ * Shape of `rbac.permissions.<role>` config values
+ */
+interface RoleDefinition {
+  permissions?: string[];
+  inherits?: string[];
+}
+
+/**
+ * Outcome of the RBAC gate
+ */
+interface RBACCheck {
+  allowed: boolean;
+  reasons: string[];
+  context?: RBACContext;
+}
+
+/**
+ * A quota counter touched by a request
+ */
+interface QuotaCounter {
+  status: QuotaStatus;
+  key: string;
+  amount: number;
+  windowSeconds: number;
+  perPrincipal: boolean;
+}
+
+/**
+ * Whether a permission list grants an action (permissions may be globs such as "llm:*")
+ */
+function findGrantingPermission(permissions: string[], action: string): string | undefined {
+  return permissions.find((permission) => matchesGlob(permission, action));
+}
+
+/**
+ * Whether an RBAC scope covers a resource
+ * A scope covers resources it matches as a glob, and resources nested beneath it ("<scope>/...").
+ */
+function scopeCovers(scope: string | undefined, resourceId: string): boolean {
+  return scope === undefined
+    || matchesGlob(scope, resourceId)
+    || resourceId.startsWith(`${scope}/`);
+}
+
+/**
+ * Whether a binding applies within the requested scope
+ * Unscoped bindings always apply; scoped bindings apply to their scope and everything nested beneath it.
+ */
+function bindingApplies(bindingScope: string | undefined, requestedScope: string | undefined): boolean {
+  if (bindingScope === undefined) {
+    return true;
+  }
+  return requestedScope !== undefined
+    && (requestedScope === bindingScope || requestedScope.startsWith(`${bindingScope}/`));
+}
+
+/**
+ * Whether a failed Config Manager read means the key is not configured, rather than that Config Manager is unavailable
+ */
+function isMissingConfig(response: AdapterResponse<ConfigValue>): boolean {
+  return response.success ? !response.data : response.metadata?.status === 404;
+}
+
+/**
+ * Scope to resolve RBAC in for a request
+ * A hierarchical resource id is its own scope, narrowed to `context.scope` when given (the gate then checks the
+ * scope covers the resource). Resources without a scope path (e.g. shared models) resolve unscoped, so only
+ * global roles can grant them whatever scope the caller claims.
+ */
+function requestScope(request: GovernanceRequest): string | undefined {
+  if (!request.resourceId.includes('/')) {
+    return undefined;
+  }
+
+  const scope = request.context?.scope;
+  return typeof scope === 'string' && scope !== '' ? scope : request.resourceId;
+}
+
+/**
+ * Budget subjects for a request: the principal, plus `context.team` and `context.tags` when present
+ */
+function budgetSubjects(request: GovernanceRequest): BudgetSubjects {
+  const team = request.context?.team;
+  const tags = request.context?.tags;
+
+  return {
+    principal: request.principal,
+    ...(typeof team === 'string' ? { team } : {}),
+    ...(Array.isArray(tags) ? { tags: tags.filter((tag): tag is string => typeof tag === 'string') } : {}),
+  };
+}
+
+/**
+ * Pre-call estimate kept until the request's usage is recorded
+ */
+interface UsageEstimate {
+  principal: string;
+  resourceId: string;
+  estimatedCost?: number;
+  estimatedTokens?: number;
+  pricePerToken?: number;
+  price?: ModelPrice;
+
+  /** Token quota counters charged with the estimated tokens */
+  tokenCounters?: Array<{ key: string; expiresAt: Date }>;
+}
+
+/**
+ * Obligations of an allowed request awaiting fulfillment reports
+ */
+interface PendingObligations {
+  principal: string;
+  resourceId: string;
+  obligations: Obligation[];
+
+  /** IDs of obligations already reported, so repeated reports are told apart from unknown ones */
+  reported: string[];
+}
+
+const MAX_PENDING_OBLIGATIONS = 10000;
+
+const DEFAULT_USAGE_OVERRUN_THRESHOLD = 1.5;
+
+const DEFAULT_APPROVAL_TTL_SECONDS = 86400;
+const DEFAULT_APPROVED_TTL_SECONDS = 3600;
+
+/** Upper bound on pending estimates; the oldest are dropped first */
+const MAX_PENDING_ESTIMATES = 10000;
+
+/**
+ * Human-readable reason for a budget violation
+ */
+function describeBudgetViolation(action: CostEnforcementAction, violation: BudgetViolation): string {
+  const prefix = action === 'deny' ? 'Denied' : action === 'warn' ? 'Warning' : 'Approval required';
+  return `${prefix}: budget ${violation.budgetId} (${violation.scopeType} ${violation.scopeValue}) would be exceeded: `
+    + `${violation.periodCost} spent + ${violation.estimatedCost} estimated > ${violation.amount} ${violation.currency}`;
+}
+
+/**
+ * Human-readable reason for an exhausted quota
+ */
+function describeQuotaExceeded(counter: QuotaCounter, principal: string): string {
+  const { status } = counter;
+  return `Quota exceeded: ${status.quotaId} allows ${status.limit} ${status.metric} per ${counter.windowSeconds}s`
+    + `${counter.perPrincipal ? ` for ${principal}` : ''} (${status.scopeType} ${status.scopeValue}); resets at ${status.resetsAt}`;
+}
+
+/**
+ * Options for evaluateGovernanceBatch
+ */
+export interface GovernanceBatchOptions {
+  /** Maximum requests decided at once (default 8) */
+  concurrency?: number;
+
+  /** Maximum audit signals per published batch (default 100) */
+  auditBatchSize?: number;
+}
+
+/**
+ * Settings in effect for an evaluation; replaced as a whole when live settings change
+ */
+interface GovernanceSettings {
+  degradation: DegradationPolicy;
+  enforceRBAC: boolean;
+  enforceQuotas: boolean;
+  costEnforcement?: CostEnforcementOptions;
+  usageOverrunThreshold: number;
+}
+
+function resolveSettings(options: GovernanceCoreOptions, overrides: GovernanceSettingsOverrides = {}): GovernanceSettings {
+  const costEnforcement = overrides.costEnforcement === null ? undefined : overrides.costEnforcement ?? options.costEnforcement;
+
+  return {
+    degradation: { ...DEFAULT_DEGRADATION_POLICY, ...options.degradation, ...overrides.degradation },
+    enforceRBAC: overrides.enforceRBAC ?? options.enforceRBAC ?? false,
+    enforceQuotas: overrides.enforceQuotas ?? options.enforceQuotas ?? false,
+    ...(costEnforcement ? { costEnforcement } : {}),
+    usageOverrunThreshold: overrides.usageOverrunThreshold ?? options.usageOverrunThreshold ?? DEFAULT_USAGE_OVERRUN_THRESHOLD,
+  };
+}
+
+/** Config keys read while building a cache entry, so config changes can invalidate it */
+const configReads = new AsyncLocalStorage<Set<string>>();
+
+const DEFAULT_BATCH_CONCURRENCY = 8;
+const DEFAULT_AUDIT_BATCH_SIZE = 100;
+
+/**
+ * A request whose deciding stages have run, awaiting analytics and audit
+ */
+interface PendingEvaluation {
+  request: GovernanceRequest;
+  settings: GovernanceSettings;
+  allowed: boolean;
+  policyResults: PolicyEvaluationResult;
+  degradations: DegradationRecord[];
+  costImpact?: FinOpsSummary;
+  estimatedCost?: CostEstimate;
+  price?: ModelPrice;
+  costEnforcement?: CostEnforcementResult;
+  quotas?: QuotaStatus[];
+  approval?: ApprovalTicket;
+  obligations?: Obligation[];
+  guardrails?: GuardrailResult;
+  tokenCounters: QuotaCounter[];
+
+  /** Quota counters charged for the request, refunded if a later stage denies it */
+  chargedCounters: QuotaCounter[];
+}
+
+/**
+ * Guardrail result without the redacted text, for audit signals
+ */
+function guardrailAuditMetadata(result: GuardrailResult): Omit<GuardrailResult, 'redactedText'> {
+  const { redactedText: _redacted, ...metadata } = result;
+  return metadata;
+}
+
+function outcomeOf(evaluation: PendingEvaluation): GovernanceOutcome {
+  if (evaluation.allowed) {
+    return 'allowed';
+  }
+  return evaluation.approval?.status === 'pending' ? 'pending_approval' : 'denied';
+}
+
+/**
+ * Why an approval ticket does not (or no longer) allow its request
+ */
+function describeApproval(ticket: ApprovalTicket): string {
+  switch (ticket.status) {
+    case 'pending':
+      return `Awaiting approval: ticket ${ticket.ticketId} (approver roles: ${ticket.approverRoles.join(', ')})`;
+    case 'approved':
+      return `Approved by ${ticket.decidedBy} (ticket ${ticket.ticketId})`;
+    case 'rejected':
+      return `Approval rejected by ${ticket.decidedBy} (ticket ${ticket.ticketId})`;
+    case 'expired':
+      return `Approval ticket ${ticket.ticketId} expired`;
+  }
+}
+
+/**
+ * Cost lookups shared by the requests of a batch
+ */
+interface CostLookups {
+  /** Catalog price per resourceId */
+  prices: Map<string, Promise<ModelPrice | undefined>>;
+
+  /** Trailing cost and forecast per resourceId */
+  resourceCosts: Map<string, Promise<ResourceCost>>;
+
+  /** Period spend per budget scope and period */
+  periodSpend: Map<string, Promise<PeriodSpend>>;
+}
+
+interface ResourceCost {
+  currentCost: number;
+  forecast: number;
+}
+
+interface PeriodSpend {
+  periodCost: number;
+  projectedPeriodCost: number;
+}
+
+/**
+ * Map items through an async function with at most `limit` calls in flight, preserving order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
 /**
  * Core governance orchestrator
  * Coordinates policy evaluation, cost tracking, analytics, and audit logging
  */
 export class GovernanceCore {
   private adapters: AdapterCollection;
+  private options: GovernanceCoreOptions;
+  private settings: GovernanceSettings;
+  private quotaStore: QuotaStore;
+  private approvalStore: ApprovalStore;
+  private approvalTtlSeconds: number;
+  private approvedTtlSeconds: number;
+  private guardrails?: GuardrailScanner;
+  private auditLog?: AuditLog;
+  private outbox?: Outbox;
+  private redactor?: Redactor;
+  private usageEstimates = new Map<string, UsageEstimate>();
+  private pendingObligations = new Map<string, PendingObligations>();
+  private pricing?: PricingOptions;
+  private pricingFile?: Promise<ModelPrice[]>;
+  private cache?: GovernanceCache;
+  private settingsKey?: string;
+  private settingsLoad?: Promise<void>;
+  private liveConfig = new Map<string, ConfigValue>();
+  private liveWatch?: Promise<boolean>;
+  private liveWatching = false;
+  private watchIds: string[] = [];
+
+  /** Watches on the config keys cache entries depend on, held while any entry does */
+  private cacheWatches = new Map<string, Promise<string | undefined>>();
+  private disposed = false;
+
+  constructor(adapters: AdapterCollection, options: GovernanceCoreOptions = {}) {
+    this.adapters = adapters;
+    this.options = options;
+    this.settings = resolveSettings(options);
+    this.quotaStore = options.quotaStore ?? new InMemoryQuotaStore();
+    this.approvalStore = options.approvals?.store ?? new InMemoryApprovalStore();
+    this.approvalTtlSeconds = options.approvals?.ttlSeconds ?? DEFAULT_APPROVAL_TTL_SECONDS;
+    this.approvedTtlSeconds = options.approvals?.approvedTtlSeconds ?? DEFAULT_APPROVED_TTL_SECONDS;
+    this.guardrails = options.guardrails ? new GuardrailScanner(options.guardrails) : undefined;
+    this.auditLog = options.audit ? new AuditLog(options.audit.store ?? new InMemoryAuditStore()) : undefined;
+    this.redactor = options.redaction ? new Redactor(options.redaction) : undefined;
+    if (options.outbox) {
+      this.outbox = new Outbox((event) => this.adapters.dashboard.publishEvent(event), options.outbox);
+      this.outbox.start();
+    }
+    this.pricing = options.pricing;
+    this.cache = options.cache ? new GovernanceCache(options.cache, (key) => this.releaseCacheWatch(key)) : undefined;
+    this.settingsKey = options.liveReload ? options.liveReload.settingsKey ?? DEFAULT_SETTINGS_CONFIG_KEY : undefined;
+  }
+
+  /**
+   * Evaluate governance for an incoming request
+   * Orchestrates policy, cost, analytics, and audit tracking
+   * Stage failures are handled per the configured degradation policy and reported in `degradations`
+   */
+  async evaluateGovernance(request: GovernanceRequest): Promise<GovernanceDecision> {
+    try {
+      // 1-4. RBAC, policy, cost and quota stages
+      const evaluation = await this.decide(request);
+
+      // 5. Aggregate analytics via Analytics Hub
+      try {
+        const trackResponse = await this.adapters.analyticsHub.track(this.redact(this.analyticsEventFor(evaluation), 'analytics'));
+        if (!trackResponse.success) {
+          throw new UpstreamError(trackResponse.error || 'Analytics tracking failed');
+        }
+      } catch (error) {
+        this.degradeEvaluation(evaluation, 'analytics', error);
+      }
+
+      // 6. Generate audit ID and emit audit signal
+      const auditId = createAuditId();
+
+      try {
+        await this.publishAuditSignal(this.auditSignalFor(evaluation), auditId);
+      } catch (error) {
+        await this.degradeAudit(evaluation, auditId, error);
+      }
+
+      // 7. Return normalized governance decision, refunding quotas if analytics or audit denied it
+      await this.refundQuotas(evaluation);
+      return this.completeEvaluation(evaluation, auditId);
+    } catch (error) {
+      throw withContext('Governance evaluation failed', error);
+    }
+  }
+
+  /**
+   * Evaluate many requests, sharing upstream calls between them
+   * Decisions run with bounded concurrency; prices and cost lookups are shared by requests for the same resourceId
+   * and period spend by requests against the same budget, analytics go through trackBatch and audit signals are
+   * published in batches.
+   * Results are returned in request order, and one request failing does not abort the others.
+   */
+  async evaluateGovernanceBatch(
+    requests: GovernanceRequest[],
+    options: GovernanceBatchOptions = {}
+  ): Promise<GovernanceBatchResult[]> {
+    const concurrency = Math.max(1, options.concurrency ?? DEFAULT_BATCH_CONCURRENCY);
+    const auditBatchSize = Math.max(1, options.auditBatchSize ?? DEFAULT_AUDIT_BATCH_SIZE);
+    const lookups: CostLookups = { prices: new Map(), resourceCosts: new Map(), periodSpend: new Map() };
+
+    // 1-4. Decide each request independently
+    const outcomes = await mapWithConcurrency(requests, concurrency, async (request) => {
+      try {
+        return { evaluation: await this.decide(request, lookups) };
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+
+    const evaluations = outcomes
+      .map((outcome) => outcome.evaluation)
+      .filter((evaluation): evaluation is PendingEvaluation => evaluation !== undefined);
+
+    // 5. One analytics call for the whole batch
+    if (evaluations.length > 0) {
+      try {
+        const trackResponse = await this.adapters.analyticsHub.trackBatch(
+          evaluations.map((evaluation) => this.redact(this.analyticsEventFor(evaluation), 'analytics'))
+        );
+        if (!trackResponse.success) {
+          throw new UpstreamError(trackResponse.error || 'Analytics batch tracking failed');
+        }
+      } catch (error) {
+        evaluations.forEach((evaluation) => this.degradeEvaluation(evaluation, 'analytics', error));
+      }
+    }
+
+    // 6. Audit signals in chunks of auditBatchSize
+    const auditIds = new Map<PendingEvaluation, string>();
+    for (let offset = 0; offset < evaluations.length; offset += auditBatchSize) {
+      const chunk = evaluations.slice(offset, offset + auditBatchSize);
+      chunk.forEach((evaluation) => auditIds.set(evaluation, createAuditId()));
+
+      try {
+        await this.emitAuditSignalBatch(
+          chunk.map((evaluation) => this.auditSignalFor(evaluation)),
+          chunk.map((evaluation) => auditIds.get(evaluation)!)
+        );
+      } catch (error) {
+        for (const evaluation of chunk) {
+          await this.degradeAudit(evaluation, auditIds.get(evaluation)!, error);
+        }
+      }
+    }
+
+    for (const evaluation of evaluations) {
+      await this.refundQuotas(evaluation);
+    }
+
+    // 7. Per-item decisions or errors, in request order
+    return outcomes.map((outcome, index) => {
+      const requestId = requests[index]?.requestId;
+      return outcome.evaluation
+        ? { requestId, decision: this.completeEvaluation(outcome.evaluation, auditIds.get(outcome.evaluation)!) }
+        : { requestId, error: `Governance evaluation failed: ${outcome.error}` };
+    });
+  }
+
+  /**
+   * Run the stages that decide a request: RBAC gate, policy, cost and quotas
+   *
+   * @param lookups - Cost lookups shared across a batch
+   */
+  private async decide(request: GovernanceRequest, lookups?: CostLookups): Promise<PendingEvaluation> {
+    await this.ensureLiveSettings();
+
+    // Settings are read once so a concurrent reload cannot change them mid-evaluation
+    const settings = this.settings;
+    const degradations: DegradationRecord[] = [];
+    const approvalReasons: string[] = [];
+
+    // 1. Optional RBAC gate, checked before the policy engine is consulted
+    let rbacCheck: RBACCheck | undefined;
+    if (settings.enforceRBAC) {
+      try {
+        rbacCheck = await this.checkRBAC(request);
+      } catch (error) {
+        const record = this.recordDegradation(degradations, 'rbac', error, settings.degradation);
+        rbacCheck = {
+          allowed: record.mode === 'fail-open',
+          reasons: [`RBAC resolution unavailable (${record.mode}): ${record.error}`],
+        };
+      }
+    }
+
+    // 2. Delegate policy evaluation to Policy Engine
+    const policyRequest: PolicyEvaluationRequest = {
+      principal: request.principal,
+      action: request.action,
+      resource: request.resourceId,
+      context: request.context || {},
+    };
+
+    let policyResults: PolicyEvaluationResult;
+    let obligations: Obligation[] | undefined;
+    if (rbacCheck && !rbacCheck.allowed) {
+      policyResults = { allowed: false, policies: [], reasons: rbacCheck.reasons };
+    } else {
+      try {
+        const policyDecision = await this.evaluatePolicy(policyRequest);
+
+        // Obligations the caller cannot parse cannot be enforced, so they fail the policy stage
+        if (policyDecision.allowed && policyDecision.conditions?.obligations !== undefined) {
+          obligations = parseObligations(policyDecision.conditions.obligations, 'conditions.obligations');
+        }
+
+        policyResults = {
+          allowed: policyDecision.allowed,
+          policies: policyDecision.appliedPolicies,
+          reasons: policyDecision.reasons,
+        };
+
+        if (policyDecision.allowed && policyDecision.conditions?.requireApproval === true) {
+          approvalReasons.push(`Approval required by ${policyDecision.appliedPolicies.join(', ') || 'policy'}`);
+        }
+      } catch (error) {
+        const record = this.recordDegradation(degradations, 'policy', error, settings.degradation);
+        policyResults = {
+          allowed: record.mode === 'fail-open',
+          policies: [],
+          reasons: [`Policy evaluation unavailable (${record.mode}): ${record.error}`],
+        };
+      }
+
+      if (rbacCheck) {
+        policyResults.reasons = [...rbacCheck.reasons, ...policyResults.reasons];
+      }
+    }
+
+    const evaluation: PendingEvaluation = {
+      request,
+      settings,
+      allowed: policyResults.allowed,
+      policyResults,
+      degradations,
+      ...(obligations && obligations.length > 0 ? { obligations } : {}),
+      tokenCounters: [],
+      chargedCounters: [],
+    };
+
+    // Guardrails: scan the prompt before cost, approvals and quotas
+    const prompt = request.context?.prompt;
+    if (this.guardrails && typeof prompt === 'string') {
+      evaluation.guardrails = this.guardrails.scan(prompt, 'prompt');
+
+      if (evaluation.guardrails.blocked) {
+        policyResults.reasons = [...policyResults.reasons, ...describeGuardrailFindings(evaluation.guardrails, 'block')];
+        evaluation.allowed = false;
+      }
+    }
+
+    // 3. Correlate cost data via CostOps
+    try {
+      evaluation.price = await this.lookup(lookups?.prices, request.resourceId, () => this.findPrice(request.resourceId));
+      evaluation.estimatedCost = estimateRequestCost(request.context, evaluation.price);
+
+      evaluation.costImpact = await this.summarize(request.resourceId, budgetSubjects(request), lookups);
+
+      // Budget admission control, only for requests that would otherwise be allowed
+      const { costEnforcement } = settings;
+      if (costEnforcement && evaluation.allowed) {
+        const violations = await this.checkBudgets(request, evaluation.estimatedCost, lookups);
+
+        if (violations.length > 0) {
+          evaluation.costEnforcement = { action: costEnforcement.action, estimatedCost: evaluation.estimatedCost?.amount ?? 0, violations };
+          const reasons = violations.map((violation) => describeBudgetViolation(costEnforcement.action, violation));
+          policyResults.reasons = [...policyResults.reasons, ...reasons];
+
+          if (costEnforcement.action === 'require-approval') {
+            approvalReasons.push(...reasons);
+          } else {
+            evaluation.allowed = costEnforcement.action === 'warn';
+          }
+        }
+      }
+    } catch (error) {
+      this.degradeEvaluation(evaluation, 'cost', error);
+    }
+
+    // Approval gate: requests that need sign-off wait for an approved ticket
+    if (evaluation.allowed && approvalReasons.length > 0) {
+      try {
+        await this.applyApproval(evaluation, approvalReasons);
+      } catch (error) {
+        evaluation.allowed = false;
+        policyResults.reasons = [...policyResults.reasons, `Approval unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`];
+      }
+    }
+
+    // 4. Charge quotas, only for requests that would otherwise be allowed
+    if (settings.enforceQuotas && evaluation.allowed) {
+      try {
+        // Role quotas reuse the RBAC gate's context; a failed gate is not resolved again
+        if (rbacCheck && !rbacCheck.context) {
+          throw new Error('RBAC context unavailable for role quotas');
+        }
+
+        const counters = await this.checkQuotas(request, rbacCheck?.context);
+        const exceeded = counters.filter(({ status, amount }) => status.used + amount > status.limit);
+
+        if (exceeded.length > 0) {
+          policyResults.reasons = [...policyResults.reasons, ...exceeded.map((counter) => describeQuotaExceeded(counter, request.principal))];
+          evaluation.allowed = false;
+        } else {
+          await this.chargeQuotas(counters);
+          evaluation.chargedCounters = counters;
+          evaluation.tokenCounters = counters.filter(({ status }) => status.metric === 'tokens');
+        }
+
+        evaluation.quotas = counters.map(({ status }) => status);
+      } catch (error) {
+        this.degradeEvaluation(evaluation, 'quota', error);
+      }
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * Share one lookup per key when a cache is given
+   */
+  private lookup<T>(cache: Map<string, Promise<T>> | undefined, key: string, load: () => Promise<T>): Promise<T> {
+    if (!cache) {
+      return load();
+    }
+
+    let pending = cache.get(key);
+    if (!pending) {
+      pending = load();
+      cache.set(key, pending);
+    }
+    return pending;
+  }
+
+  private analyticsEventFor(evaluation: PendingEvaluation): AnalyticsEvent {
+    const { request } = evaluation;
+    return {
+      eventName: 'governance.evaluation',
+      timestamp: new Date(),
+      properties: {
+        requestId: request.requestId,
+        resourceId: request.resourceId,
+        action: request.action,
+        principal: request.principal,
+        allowed: evaluation.allowed,
+        outcome: outcomeOf(evaluation),
+      },
+      userId: request.principal,
+    };
+  }
+
+  private auditSignalFor(evaluation: PendingEvaluation): AuditSignal {
+    const { request, policyResults, quotas, costEnforcement, approval, degradations } = evaluation;
+    return {
+      timestamp: new Date().toISOString(),
+      action: request.action,
+      principal: request.principal,
+      resource: request.resourceId,
+      outcome: outcomeOf(evaluation),
+      metadata: {
+        requestId: request.requestId,
+        policies: policyResults.policies,
+        reasons: policyResults.reasons,
+        ...(quotas ? { quotas } : {}),
+        ...(costEnforcement ? { costEnforcement } : {}),
+        ...(approval ? { approvalTicketId: approval.ticketId } : {}),
+        ...(evaluation.allowed && evaluation.obligations ? { obligations: evaluation.obligations } : {}),
+        ...(evaluation.guardrails ? { guardrails: guardrailAuditMetadata(evaluation.guardrails) } : {}),
+        ...(degradations.length > 0 ? { degradations } : {}),
+      },
+    };
+  }
+
+  /**
+   * Apply a supplementary stage failure to an in-flight evaluation
+   */
+  private degradeEvaluation(evaluation: PendingEvaluation, stage: GovernanceStage, error: unknown): void {
+    evaluation.allowed = this.applyDegradation(evaluation.degradations, stage, error, evaluation.policyResults, evaluation.settings.degradation)
+      && evaluation.allowed;
+  }
+
+  /**
+   * Apply an audit failure to an in-flight evaluation
+   * When that denies the request, the local audit log may already hold the signal as allowed, so the final
+   * outcome is appended as a follow-up entry that names the entry it supersedes.
+   */
+  private async degradeAudit(evaluation: PendingEvaluation, auditId: string, error: unknown): Promise<void> {
+    const allowed = evaluation.allowed;
+    this.degradeEvaluation(evaluation, 'audit', error);
+    if (!this.auditLog || !allowed || evaluation.allowed) {
+      return;
+    }
+
+    const signal = this.auditSignalFor(evaluation);
+    signal.metadata = { ...signal.metadata, supersedesAuditId: auditId };
+    try {
+      await this.validateAuditSignal(AUDIT_SIGNAL_SCHEMA_ID, this.redact(signal, 'audit'));
+      await this.auditLog.append(signal);
+    } catch {
+      // The audit stage is already degraded; a signal that cannot be validated was not logged in the first place
+    }
+  }
+
+  /**
+   * Build the final decision, keeping the estimate of allowed requests for recordUsage
+   */
+  private completeEvaluation(evaluation: PendingEvaluation, auditId: string): GovernanceDecision {
+    const { request, allowed, policyResults, costImpact, estimatedCost, quotas, costEnforcement, approval, guardrails, degradations } = evaluation;
+    const obligations = allowed ? evaluation.obligations : undefined;
+
+    if (allowed) {
+      this.rememberEstimate(request, estimatedCost, evaluation.price, evaluation.tokenCounters);
+    }
+    if (obligations) {
+      this.rememberObligations(request, obligations);
+    }
+
+    return {
+      requestId: request.requestId,
+      allowed,
+      outcome: outcomeOf(evaluation),
+      policyResults,
+      costImpact,
+      auditId,
+      ...(estimatedCost ? { estimatedCost } : {}),
+      ...(quotas ? { quotas } : {}),
+      ...(costEnforcement ? { costEnforcement } : {}),
+      ...(approval ? { approval } : {}),
+      ...(obligations ? { obligations } : {}),
+      ...(guardrails ? { guardrails } : {}),
+      ...(degradations.length > 0 ? { degradations } : {}),
+    };
+  }
+
+  /**
+   * Check the request against the principal's RBAC context
+   * The action must be granted by a permission (globs allowed) and the scope must cover the resource.
+   */
+  private async checkRBAC(request: GovernanceRequest): Promise<RBACCheck> {
+    const rbac = await this.resolveRBAC(request.principal, { scope: requestScope(request) });
+    const permission = findGrantingPermission(rbac.permissions, request.action);
+
+    if (!permission) {
+      return {
+        allowed: false,
+        reasons: [`RBAC: ${request.principal} has no permission for ${request.action}`],
+        context: rbac,
+      };
+    }
+
+    if (!scopeCovers(rbac.scope, request.resourceId)) {
+      return {
+        allowed: false,
+        reasons: [`RBAC: scope ${rbac.scope} does not cover ${request.resourceId}`],
+        context: rbac,
+      };
+    }
+
+    const chain = rbac.grantedBy?.[permission] ?? [];
+    return {
+      allowed: true,
+      reasons: [
+        `RBAC: ${request.action} granted by permission ${permission}${chain.length > 1 ? ` via ${chain.join(' > ')}` : ''}`,
+      ],
+      context: rbac,
+    };
+  }
+
+  /**
+   * Look up the quotas that apply to a request and read their current counters
+   * Quotas are read for the principal, each of its roles, the resource and the action.
+   */
+  private async checkQuotas(request: GovernanceRequest, rbac?: RBACContext): Promise<QuotaCounter[]> {
+    const now = new Date();
+    const roles = (rbac ?? await this.resolveRBAC(request.principal, { scope: requestScope(request) })).roles;
+    const tokens = expectedRequestTokens(request.context) ?? 0;
+
+    const subjects: Array<{ scopeType: QuotaScopeType; scopeValue: string }> = [
+      { scopeType: 'principal', scopeValue: request.principal },
+      ...roles.map((role) => ({ scopeType: 'role' as const, scopeValue: role })),
+      { scopeType: 'resource', scopeValue: request.resourceId },
+      { scopeType: 'action', scopeValue: request.action },
+    ];
+
+    const counters: QuotaCounter[] = [];
+
+    for (const { scopeType, scopeValue } of subjects) {
+      const key = quotaConfigKey(scopeType, scopeValue);
+      // A Config Manager outage throws, so the quota degradation mode decides rather than skipping the quota
+      const quotaConfig = await this.readOptionalConfig(key);
+      if (!quotaConfig) {
+        continue;
+      }
+
+      const limits = parseQuotaLimits(quotaConfig.value, key);
+
+      for (const [index, limit] of limits.entries()) {
+        const quotaId = limit.id || (limits.length > 1 ? `${key}[${index}]` : key);
+        const perPrincipal = limit.perPrincipal ?? (scopeType === 'principal' || scopeType === 'role');
+        const window = quotaWindow(limit.windowSeconds, now);
+        const counterKey = `${quotaId}:${perPrincipal ? request.principal : '*'}:${window.start.getTime()}`;
+        const used = await this.quotaStore.get(counterKey);
+
+        counters.push({
+          status: {
+            quotaId,
+            scopeType,
+            scopeValue,
+            metric: limit.metric,
+            limit: limit.limit,
+            used,
+            remaining: Math.max(0, limit.limit - used),
+            resetsAt: window.end.toISOString(),
+          },
+          key: counterKey,
+          amount: limit.metric === 'requests' ? 1 : tokens,
+          windowSeconds: limit.windowSeconds,
+          perPrincipal,
+        });
+      }
+    }
+
+    return counters;
+  }
+
+  /**
+   * Add a request to its quota counters, updating each status with the new totals
+   * Counters are read before they are charged, so concurrent requests against a shared store may briefly overshoot a limit.
+   */
+  private async chargeQuotas(counters: QuotaCounter[]): Promise<void> {
+    for (const counter of counters) {
+      if (counter.amount === 0) {
+        continue;
+      }
+      const used = await this.quotaStore.increment(counter.key, counter.amount, new Date(counter.status.resetsAt));
+      counter.status.used = used;
+      counter.status.remaining = Math.max(0, counter.status.limit - used);
+    }
+  }
+
+  /**
+   * Give back the quota charged to a request that analytics or audit denied after the quota stage
+   * A failed refund is recorded as a quota degradation; the charge then lapses with its window.
+   */
+  private async refundQuotas(evaluation: PendingEvaluation): Promise<void> {
+    if (evaluation.allowed || evaluation.chargedCounters.length === 0) {
+      return;
+    }
+
+    const counters = evaluation.chargedCounters;
+    evaluation.chargedCounters = [];
+    evaluation.tokenCounters = [];
+
+    try {
+      for (const counter of counters) {
+        if (counter.amount === 0) {
+          continue;
+        }
+        const used = await this.quotaStore.increment(counter.key, -counter.amount, new Date(counter.status.resetsAt));
+        counter.status.used = used;
+        counter.status.remaining = Math.max(0, counter.status.limit - used);
+      }
+    } catch (error) {
+      this.recordDegradation(evaluation.degradations, 'quota', error, evaluation.settings.degradation);
+    }
+  }
+
+  /**
+   * Attach the request's approval ticket to an evaluation, creating one on first evaluation
+   * Only an approved ticket leaves the request allowed.
+   */
+  private async applyApproval(evaluation: PendingEvaluation, reasons: string[]): Promise<void> {
+    const { request } = evaluation;
+    const contextHash = hashContext(request.context);
+    const estimatedCost = evaluation.estimatedCost?.amount;
+    let ticket = await this.approvalStore.findByRequestId(request.requestId);
+
+    if (ticket && (ticket.principal !== request.principal || ticket.resourceId !== request.resourceId || ticket.action !== request.action)) {
+      throw new Error(`requestId ${request.requestId} belongs to a different request`);
+    }
+    if (ticket && ticket.contextHash !== contextHash) {
+      throw new Error(`requestId ${request.requestId} was submitted for approval with a different context`);
+    }
+
+    if (ticket && isApprovalExpired(ticket)) {
+      ticket = await this.transitionApproval(ticket, 'expired', 'governance-core');
+      await this.auditApproval(ticket, 'governance-core').catch((error) => this.degradeEvaluation(evaluation, 'audit', error));
+    }
+
+    if (!ticket) {
+      ticket = await this.requestApproval(request, reasons, contextHash, estimatedCost);
+      await this.auditApproval(ticket, request.principal).catch((error) => this.degradeEvaluation(evaluation, 'audit', error));
+    }
+
+    evaluation.approval = ticket;
+    evaluation.allowed = ticket.status === 'approved';
+    evaluation.policyResults.reasons = [...evaluation.policyResults.reasons, describeApproval(ticket)];
+
+    // The same context can still cost more, e.g. after a price change
+    if (evaluation.allowed && (estimatedCost ?? 0) > (ticket.estimatedCost ?? 0)) {
+      evaluation.allowed = false;
+      evaluation.policyResults.reasons = [
+        ...evaluation.policyResults.reasons,
+        `Denied: estimated cost ${estimatedCost} exceeds the ${ticket.estimatedCost ?? 0} approved with ticket ${ticket.ticketId}`,
+      ];
+    }
+  }
+
+  /**
+   * Create a pending ticket for a request, with approver roles from rbac.approvers.<action>
+   *
+   * @throws Error if no approver roles are configured for the action
+   */
+  private async requestApproval(
+    request: GovernanceRequest,
+    reasons: string[],
+    contextHash: string,
+    estimatedCost: number | undefined
+  ): Promise<ApprovalTicket> {
+    const key = approverConfigKey(request.action);
+    const approversConfig = await this.readConfig(key);
+
+    if (!approversConfig.success || !approversConfig.data) {
+      throw new Error(`No approvers configured (${key})`);
+    }
+
+    const now = new Date();
+    const ticket: ApprovalTicket = {
+      ticketId: `approval-${randomUUID()}`,
+      requestId: request.requestId,
+      principal: request.principal,
+      resourceId: request.resourceId,
+      action: request.action,
+      approverRoles: parseApproverRoles(approversConfig.data.value, key),
+      status: 'pending',
+      reasons,
+      contextHash,
+      ...(estimatedCost !== undefined ? { estimatedCost } : {}),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.approvalTtlSeconds * 1000).toISOString(),
+    };
+
+    await this.approvalStore.save(ticket);
+    return ticket;
+  }
+
+  /**
+   * Approve a pending ticket; re-evaluating its requestId then returns allowed
+   *
+   * @param approver - Principal holding one of the ticket's approver roles (not the requester)
+   * @throws Error if the ticket is unknown, no longer pending, or the approver is not allowed to decide it
+   */
+  async approveRequest(ticketId: string, approver: string, comment?: string): Promise<ApprovalTicket> {
+    return this.decideApproval(ticketId, approver, 'approved', comment);
+  }
+
+  /**
+   * Reject a pending ticket; re-evaluating its requestId then returns denied
+   *
+   * @throws Error if the ticket is unknown, no longer pending, or the approver is not allowed to decide it
+   */
+  async rejectRequest(ticketId: string, approver: string, comment?: string): Promise<ApprovalTicket> {
+    return this.decideApproval(ticketId, approver, 'rejected', comment);
+  }
+
+  /**
+   * Expire every pending ticket past its expiry, returning the expired tickets
+   * Tickets are also expired when they are next evaluated or decided, so calling this is optional.
+   */
+  async expireApprovals(now: Date = new Date()): Promise<ApprovalTicket[]> {
+    const expired: ApprovalTicket[] = [];
+
+    for (const ticket of await this.approvalStore.listPending()) {
+      if (isApprovalExpired(ticket, now)) {
+        const updated = await this.transitionApproval(ticket, 'expired', 'governance-core', undefined, now);
+        await this.auditApprovalTransition(updated, 'governance-core');
+        expired.push(updated);
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Look up an approval ticket
+   */
+  async getApproval(ticketId: string): Promise<ApprovalTicket | undefined> {
+    return this.approvalStore.get(ticketId);
+  }
+
+  private async decideApproval(
+    ticketId: string,
+    approver: string,
+    status: 'approved' | 'rejected',
+    comment?: string
+  ): Promise<ApprovalTicket> {
+    const ticket = await this.approvalStore.get(ticketId);
+
+    if (!ticket) {
+      throw new Error(`Approval failed: ticket ${ticketId} not found`);
+    }
+    if (isApprovalExpired(ticket)) {
+      await this.auditApprovalTransition(await this.transitionApproval(ticket, 'expired', 'governance-core'), 'governance-core');
+      throw new Error(`Approval failed: ticket ${ticketId} expired`);
+    }
+    if (ticket.status !== 'pending') {
+      throw new Error(`Approval failed: ticket ${ticketId} is already ${ticket.status}`);
+    }
+    if (approver === ticket.principal) {
+      throw new Error('Approval failed: principals cannot decide their own requests');
+    }
+
+    const rbac = await this.resolveRBAC(approver);
+    const roles = rbac.effectiveRoles ?? rbac.roles;
+    if (!roles.some((role) => ticket.approverRoles.includes(role))) {
+      throw new Error(`Approval failed: ${approver} holds none of the approver roles (${ticket.approverRoles.join(', ')})`);
+    }
+
+    const updated = await this.transitionApproval(ticket, status, approver, comment);
+    await this.auditApprovalTransition(updated, approver);
+    return updated;
+  }
+
+  /**
+   * Move a ticket to a new state and store it; approvals apply for approvedTtlSeconds
+   */
+  private async transitionApproval(
+    ticket: ApprovalTicket,
+    status: ApprovalStatus,
+    decidedBy: string,
+    comment?: string,
+    now: Date = new Date()
+  ): Promise<ApprovalTicket> {
+    const updated: ApprovalTicket = {
+      ...ticket,
+      status,
+      decidedBy,
+      decidedAt: now.toISOString(),
+      ...(status === 'approved' ? { approvedUntil: new Date(now.getTime() + this.approvedTtlSeconds * 1000).toISOString() } : {}),
+      ...(comment !== undefined ? { comment } : {}),
+    };
+
+    await this.approvalStore.save(updated);
+    return updated;
+  }
+
+  /**
+   * Audit a ticket transition outside an evaluation
+   * The transition is already stored; only a fail-closed audit stage surfaces the failure.
+   */
+  private async auditApprovalTransition(ticket: ApprovalTicket, actor: string): Promise<void> {
+    try {
+      await this.auditApproval(ticket, actor);
+    } catch (error) {
+      if (this.settings.degradation.audit === 'fail-closed') {
+        throw error;
+      }
+    }
+  }
+
+  private auditApproval(ticket: ApprovalTicket, actor: string): Promise<string> {
+    return this.emitAuditSignal({
+      timestamp: new Date().toISOString(),
+      action: `approval:${ticket.status === 'pending' ? 'requested' : ticket.status}`,
+      principal: actor,
+      resource: ticket.resourceId,
+      outcome: ticket.status,
+      metadata: {
+        ticketId: ticket.ticketId,
+        requestId: ticket.requestId,
+        requester: ticket.principal,
+        action: ticket.action,
+        approverRoles: ticket.approverRoles,
+        reasons: ticket.reasons,
+        ...(ticket.comment !== undefined ? { comment: ticket.comment } : {}),
+      },
+    });
+  }
+
+  /**
+   * Record a stage failure under its configured degradation mode
+   */
+  private recordDegradation(
+    degradations: DegradationRecord[],
+    stage: GovernanceStage,
+    error: unknown,
+    policy: DegradationPolicy
+  ): DegradationRecord {
+    const record: DegradationRecord = {
+      stage,
+      mode: policy[stage],
+      error: error instanceof Error ? error.message : String(error),
+    };
+    degradations.push(record);
+    return record;
+  }
+
+  /**
+   * Record a supplementary stage failure and report whether the request may still proceed
+   * Fail-closed stages deny the request and add the reason to the policy results.
+   */
+  private applyDegradation(
+    degradations: DegradationRecord[],
+    stage: GovernanceStage,
+    error: unknown,
+    policyResults: PolicyEvaluationResult,
+    policy: DegradationPolicy
+  ): boolean {
+    const record = this.recordDegradation(degradations, stage, error, policy);
+
+    if (record.mode === 'fail-closed') {
+      policyResults.reasons = [...policyResults.reasons, `Denied: ${stage} stage unavailable (fail-closed): ${record.error}`];
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Resolve RBAC context for a principal
+   * Delegates to Config Manager for role mappings, group memberships and scoped bindings,
+   * and expands role inheritance. With a scope, only bindings that apply within it are used.
+   */
+  async resolveRBAC(principal: string, options: RBACResolutionOptions = {}): Promise<RBACContext> {
+    const { scope } = options;
+    return this.cached(this.cache?.rbac, JSON.stringify([principal, scope]), () => this.loadRBAC(principal, scope));
+  }
+
+  private async loadRBAC(principal: string, scope?: string): Promise<RBACContext> {
+    const snapshot = this.liveConfig;
+
+    try {
+      const subject = await this.readDefinition<SubjectDefinition>(`rbac.roles.${principal}`, snapshot);
+
+      if (!subject) {
+        // Return empty context if no roles configured
+        return {
+          principal,
+          roles: [],
+          permissions: [],
+          scope,
+          effectiveRoles: [],
+          grantedBy: {},
+          bindings: [],
+        };
+      }
+
+      const bindings = this.collectBindings(subject, 'direct', scope);
+
+      // Group memberships contribute their own bindings
+      for (const group of subject.groups || []) {
+        const groupDefinition = await this.readDefinition<SubjectDefinition>(`rbac.groups.${group}`, snapshot);
+        if (groupDefinition) {
+          bindings.push(...this.collectBindings(groupDefinition, `group:${group}`, scope));
+        }
+      }
+
+      const roles = Array.from(new Set(bindings.map((binding) => binding.role)));
+      const { effectiveRoles, grantedBy } = await this.expandRoles(roles, snapshot);
+
+      return {
+        principal,
+        roles,
+        permissions: Object.keys(grantedBy),
+        scope,
+        effectiveRoles,
+        grantedBy,
+        bindings,
+      };
+    } catch (error) {
+      throw withContext('RBAC resolution failed', error);
+    }
+  }
+
+  /**
+   * Read an RBAC definition, or undefined when the key is not configured
+   *
+   * @throws Error if Config Manager fails, so the rbac degradation mode decides instead of an empty context
+   */
+  private async readDefinition<T>(key: string, snapshot: Map<string, ConfigValue>): Promise<T | undefined> {
+    const config = await this.readOptionalConfig(key, snapshot);
+    return config ? (config.value as T) || ({} as T) : undefined;
+  }
+
+  /**
+   * Read a config key, or undefined when it is not configured
+   *
+   * @throws UpstreamError if Config Manager fails, so an outage is never read as an unset key
+   */
+  private async readOptionalConfig(key: string, snapshot?: Map<string, ConfigValue>): Promise<ConfigValue | undefined> {
+    const response = await this.readConfig(key, snapshot);
+
+    if (isMissingConfig(response)) {
+      return undefined;
+    }
+    if (!response.success || !response.data) {
+      throw new UpstreamError(`Config Manager failed to read ${key}: ${response.error || 'Unknown error'}`);
+    }
+    return response.data;
+  }
+
+  /**
+   * Collect the role bindings of a principal or group that apply within a scope
+   */
+  private collectBindings(subject: SubjectDefinition, source: string, scope: string | undefined): RoleBinding[] {
+    const bindings: RoleBinding[] = (subject.roles || []).map((role) => ({ role, source }));
+
+    for (const binding of subject.bindings || []) {
+      if (bindingApplies(binding.scope, scope)) {
+        bindings.push({ role: binding.role, scope: binding.scope, source });
+      }
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Expand roles through their `inherits` lists (transitive closure)
+   * Each permission records the first role chain that granted it, e.g. admin -> editor -> viewer.
+   *
+   * @throws Error if the inheritance graph contains a cycle
+   */
+  private async expandRoles(
+    roles: string[],
+    snapshot: Map<string, ConfigValue>
+  ): Promise<{ effectiveRoles: string[]; grantedBy: Record<string, string[]> }> {
+    const definitions = new Map<string, RoleDefinition>();
+    const resolved = new Set<string>();
+    const effectiveRoles: string[] = [];
+    const grantedBy: Record<string, string[]> = {};
+
+    const loadDefinition = async (role: string): Promise<RoleDefinition> => {
+      let definition = definitions.get(role);
+      if (!definition) {
+        definition = (await this.readDefinition<RoleDefinition>(`rbac.permissions.${role}`, snapshot)) ?? {};
+        definitions.set(role, definition);
+      }
+      return definition;
+    };
+
+    const visit = async (role: string, path: string[]): Promise<void> => {
+      if (path.includes(role)) {
+        throw new Error(`Role inheritance cycle detected: ${[...path, role].join(' -> ')}`);
+      }
+      if (resolved.has(role)) {
+        return;
+      }
+
+      const chain = [...path, role];
+      const definition = await loadDefinition(role);
+
+      effectiveRoles.push(role);
+      for (const permission of definition.permissions || []) {
+        if (!grantedBy[permission]) {
+          grantedBy[permission] = chain;
+        }
+      }
+
+      for (const parent of definition.inherits || []) {
+        await visit(parent, chain);
+      }
+
+      resolved.add(role);
+    };
+
+    for (const role of roles) {
+      await visit(role, []);
+    }
+
+    return { effectiveRoles, grantedBy };
+  }
+
+  /**
+   * Get FinOps summary for a resource
+   * Delegates to CostOps for metrics and forecast, and to Config Manager for the applicable budget.
+   * Budgets are looked up for the resource, then the principal, team and tags; the first one found applies.
+   */
+  async getFinOpsSummary(resourceId: string, subjects: BudgetSubjects = {}): Promise<FinOpsSummary> {
+    return this.summarize(resourceId, subjects);
+  }
+
+  /**
+   * FinOps summary through the cache, sharing CostOps calls with the rest of a batch when lookups are given
+   */
+  private async summarize(resourceId: string, subjects: BudgetSubjects, lookups?: CostLookups): Promise<FinOpsSummary> {
+    return this.cached(
+      this.cache?.finops,
+      JSON.stringify([resourceId, subjects.principal, subjects.team, subjects.tags]),
+      () => this.loadFinOpsSummary(resourceId, subjects, lookups)
+    );
+  }
+
+  private async loadFinOpsSummary(resourceId: string, subjects: BudgetSubjects, lookups?: CostLookups): Promise<FinOpsSummary> {
+    try {
+      const now = new Date();
+      const { currentCost, forecast } = await this.lookup(lookups?.resourceCosts, resourceId, () => this.loadResourceCost(resourceId, now));
+
+      const [budget] = await this.findBudgets(resourceId, subjects, now, 1);
+      if (!budget) {
+        return {
+          resourceId,
+          currentCost,
+          forecast,
+          budgetStatus: 'unbudgeted',
+        };
+      }
+
+      const { periodCost, projectedPeriodCost } = await this.getPeriodSpend(budget.applied, now, lookups);
+      const evaluation = evaluateBudget(budget.applied, periodCost, projectedPeriodCost, budget.warningThresholds, now);
+
+      return {
+        resourceId,
+        currentCost,
+        forecast,
+        budget: budget.applied,
+        periodCost,
+        ...evaluation,
+      };
+    } catch (error) {
+      throw withContext('FinOps summary failed', error);
+    }
+  }
+
+  /**
+   * A resource's cost over the last 30 days and its 30-day forecast
+   */
+  private async loadResourceCost(resourceId: string, now: Date): Promise<ResourceCost> {
+    const startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000); // 30 days ago
+
+    const [metricsResponse, forecastResponse] = await Promise.all([
+      this.adapters.costOps.getCostMetrics({
+        startDate,
+        endDate: now,
+        services: [resourceId],
+      }),
+      this.adapters.costOps.getForecast({
+        horizon: 30,
+        services: [resourceId],
+      }),
+    ]);
+
+    if (!metricsResponse.success || !metricsResponse.data) {
+      throw new UpstreamError(metricsResponse.error || 'Failed to get cost metrics');
+    }
+
+    if (!forecastResponse.success || !forecastResponse.data) {
+      throw new UpstreamError(forecastResponse.error || 'Failed to get cost forecast');
+    }
+
+    const { cost: currentCost } = await this.metricsCost(metricsResponse.data, resourceId, now);
+    return { currentCost, forecast: forecastResponse.data.projectedCost };
+  }
+
+  /**
+   * Find configured budgets for a resource and its subjects, in precedence order
+   *
+   * @param limit - Stop after this many budgets are found
+   */
+  private async findBudgets(
+    resourceId: string,
+    subjects: BudgetSubjects,
+    now: Date,
+    limit = Infinity
+  ): Promise<Array<{ applied: AppliedBudget; warningThresholds?: number[] }>> {
+    const found: Array<{ applied: AppliedBudget; warningThresholds?: number[] }> = [];
+
+    for (const { scopeType, scopeValue } of budgetCandidates(resourceId, subjects)) {
+      if (found.length >= limit) {
+        break;
+      }
+
+      const key = budgetConfigKey(scopeType, scopeValue);
+      // A Config Manager outage throws rather than leaving the resource unbudgeted
+      const budgetConfig = await this.readOptionalConfig(key);
+      if (!budgetConfig) {
+        continue;
+      }
+
+      const definition = parseBudgetDefinition(budgetConfig.value, key);
+      const { start, end } = periodBounds(definition.period, now);
+
+      found.push({
+        applied: {
+          id: definition.id || key,
+          scopeType,
+          scopeValue,
+          amount: definition.amount,
+          period: definition.period,
+          currency: definition.currency,
+          periodStart: start.toISOString(),
+          periodEnd: end.toISOString(),
+        },
+        warningThresholds: definition.warningThresholds,
+      });
+    }
+
+    return found;
+  }
+
+  /**
+   * Check whether a request's estimated cost would push any applicable budget over its amount
+   *
+   * @throws Error if the estimate is in a different currency than a budget it would count against
+   */
+  private async checkBudgets(
+    request: GovernanceRequest,
+    estimate: CostEstimate | undefined,
+    lookups?: CostLookups
+  ): Promise<BudgetViolation[]> {
+    const now = new Date();
+    const budgets = await this.findBudgets(request.resourceId, budgetSubjects(request), now);
+    const estimatedCost = estimate?.amount ?? 0;
+    const violations: BudgetViolation[] = [];
+
+    for (const { applied } of budgets) {
+      if (estimate?.currency !== undefined && estimate.currency !== applied.currency) {
+        throw new Error(`Budget ${applied.id} is in ${applied.currency} but the request estimate is in ${estimate.currency}`);
+      }
+
+      const { periodCost } = await this.getPeriodSpend(applied, now, lookups);
+
+      if (periodCost + estimatedCost > applied.amount || periodCost >= applied.amount) {
+        violations.push({
+          budgetId: applied.id,
+          scopeType: applied.scopeType,
+          scopeValue: applied.scopeValue,
+          amount: applied.amount,
+          currency: applied.currency,
+          periodCost,
+          estimatedCost,
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Spend attributed to a budget so far this period, shared with the rest of a batch when lookups are given
+   */
+  private getPeriodSpend(budget: AppliedBudget, now: Date, lookups?: CostLookups): Promise<PeriodSpend> {
+    const { scopeType, scopeValue, currency, periodStart } = budget;
+    return this.lookup(
+      lookups?.periodSpend,
+      JSON.stringify([scopeType, scopeValue, currency, periodStart]),
+      () => this.loadPeriodSpend(budget, now)
+    );
+  }
+
+  /**
+   * Spend attributed to a budget so far this period, and the projected total for the period
+   * Resource budgets use the CostOps forecast; other budgets extrapolate the period-to-date run rate.
+   */
+  private async loadPeriodSpend(budget: AppliedBudget, now: Date): Promise<PeriodSpend> {
+    const periodStart = new Date(budget.periodStart);
+    const periodEnd = new Date(budget.periodEnd);
+    const isResource = budget.scopeType === 'resource';
+
+    const metricsResponse = await this.adapters.costOps.getCostMetrics({
+      startDate: periodStart,
+      endDate: now,
+      ...(isResource ? { services: [budget.scopeValue] } : { groupBy: [budget.scopeType] }),
+    });
+
+    if (!metricsResponse.success || !metricsResponse.data) {
+      throw new UpstreamError(metricsResponse.error || 'Failed to get budget period cost');
+    }
+
+    const { cost: periodCost, currency } = isResource
+      ? await this.metricsCost(metricsResponse.data, budget.scopeValue, now)
+      : { cost: metricsResponse.data.breakdown[budget.scopeValue] ?? 0, currency: metricsResponse.data.currency };
+
+    if (currency !== budget.currency) {
+      throw new Error(`Budget ${budget.id} is in ${budget.currency} but costs are reported in ${currency}`);
+    }
+
+    if (isResource) {
+      const remainingDays = Math.max(1, Math.ceil((periodEnd.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)));
+      const forecastResponse = await this.adapters.costOps.getForecast({
+        horizon: remainingDays,
+        services: [budget.scopeValue],
+      });
+
+      if (!forecastResponse.success || !forecastResponse.data) {
+        throw new UpstreamError(forecastResponse.error || 'Failed to get budget period forecast');
+      }
+
+      return { periodCost, projectedPeriodCost: periodCost + forecastResponse.data.projectedCost };
+    }
+
+    const elapsed = Math.max(1, now.getTime() - periodStart.getTime());
+    const periodLength = periodEnd.getTime() - periodStart.getTime();
+    return { periodCost, projectedPeriodCost: periodCost * (periodLength / elapsed) };
+  }
+
+  /**
+   * Cost of a single resource's metrics, pricing metered tokens when CostOps only meters tokens
+   *
+   * @throws Error if CostOps reports only tokens and the catalog has no price for the resource
+   */
+  private async metricsCost(metrics: CostMetrics, resourceId: string, at: Date): Promise<{ cost: number; currency: string }> {
+    if (!metrics.tokenOnly) {
+      return { cost: metrics.totalCost, currency: metrics.currency };
+    }
+
+    const price = metrics.tokenUsage ? await this.findPrice(resourceId, at) : undefined;
+    if (!metrics.tokenUsage || !price) {
+      throw new Error(`CostOps reported no cost for ${resourceId} and no price is configured`);
+    }
+
+    return {
+      cost: tokenCost(price, metrics.tokenUsage.promptTokens, metrics.tokenUsage.completionTokens),
+      currency: price.currency,
+    };
+  }
+
+  /**
+   * Catalog price in effect for a resource, if pricing is configured
+   */
+  private async findPrice(resourceId: string, at: Date = new Date()): Promise<ModelPrice | undefined> {
+    if (!this.pricing) {
+      return undefined;
+    }
+
+    let prices: ModelPrice[];
+
+    if (this.pricing.file) {
+      this.pricingFile ??= loadPricingFile(this.pricing.file);
+      try {
+        prices = await this.pricingFile;
+      } catch (error) {
+        // Retry the load on the next lookup
+        this.pricingFile = undefined;
+        throw error;
+      }
+    } else {
+      const key = this.pricing.configKey || DEFAULT_PRICING_CONFIG_KEY;
+      const pricingConfig = await this.readConfig(key);
+      if (!pricingConfig.success || !pricingConfig.data) {
+        return undefined;
+      }
+      prices = parsePricingCatalog(pricingConfig.data.value, key);
+    }
 
-  constructor(adapters: AdapterCollection) {
-    this.adapters = adapters;
+    return findModelPrice(prices, resourceId, at);
   }
 
   /**
-   * Evaluate governance for an incoming request
-   * Orchestrates policy, cost, analytics, and audit tracking
+   * Record post-call token usage for a request evaluated earlier
+   * Forwards usage to CostOps, reconciles it with the pre-call estimate, corrects token quotas and audits large overruns.
    */
-  async evaluateGovernance(request: GovernanceRequest): Promise<GovernanceDecision> {
-    try {
-      // 1. Delegate policy evaluation to Policy Engine
-      const policyRequest: PolicyEvaluationRequest = {
-        principal: request.principal,
-        action: request.action,
-        resource: request.resourceId,
-        context: request.context || {},
-      };
+  async recordUsage(usage: UsageRecord): Promise<UsageReconciliation> {
+    const { degradation, usageOverrunThreshold } = this.settings;
+    const estimate = this.usageEstimates.get(usage.requestId);
+    const actualTokens = usage.promptTokens + usage.completionTokens;
 
-      const policyResponse = await this.adapters.policyEngine.evaluatePolicy(policyRequest);
+    const reportResponse = await this.adapters.costOps.reportUsage({
+      service: usage.model,
+      tokens: actualTokens,
+      requestId: usage.requestId,
+      timestamp: new Date(),
+      metadata: {
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        ...(estimate ? { principal: estimate.principal, resourceId: estimate.resourceId } : {}),
+      },
+    });
 
-      if (!policyResponse.success || !policyResponse.data) {
-        throw new Error(policyResponse.error || 'Policy evaluation failed');
+    if (!reportResponse.success) {
+      // Keep the estimate so the caller can retry
+      throw new UpstreamError(`Usage recording failed: ${reportResponse.error || 'CostOps rejected usage report'}`);
+    }
+
+    this.usageEstimates.delete(usage.requestId);
+
+    let actualCost: number | undefined;
+    if (estimate?.pricePerToken !== undefined) {
+      actualCost = actualTokens * estimate.pricePerToken;
+    } else if (estimate?.price) {
+      actualCost = tokenCost(estimate.price, usage.promptTokens, usage.completionTokens);
+    }
+    let overrunRatio: number | undefined;
+
+    if (estimate?.estimatedTokens) {
+      overrunRatio = actualTokens / estimate.estimatedTokens;
+    } else if (estimate?.estimatedCost && actualCost !== undefined) {
+      overrunRatio = actualCost / estimate.estimatedCost;
+    }
+
+    const reconciliation: UsageReconciliation = {
+      requestId: usage.requestId,
+      model: usage.model,
+      actualTokens,
+      ...(estimate?.estimatedTokens !== undefined ? { estimatedTokens: estimate.estimatedTokens } : {}),
+      ...(estimate?.estimatedCost !== undefined ? { estimatedCost: estimate.estimatedCost } : {}),
+      ...(actualCost !== undefined ? { actualCost } : {}),
+      ...(overrunRatio !== undefined ? { overrunRatio } : {}),
+      overrun: overrunRatio !== undefined && overrunRatio > usageOverrunThreshold,
+    };
+
+    // Correct token quotas that were charged with the estimate
+    const correction = actualTokens - (estimate?.estimatedTokens ?? 0);
+    if (estimate?.tokenCounters && correction !== 0) {
+      try {
+        for (const { key, expiresAt } of estimate.tokenCounters) {
+          if (expiresAt.getTime() > Date.now()) {
+            await this.quotaStore.increment(key, correction, expiresAt);
+          }
+        }
+      } catch (error) {
+        if (degradation.quota === 'fail-closed') {
+          throw error;
+        }
       }
+    }
 
-      const policyResults: PolicyEvaluationResult = {
-        allowed: policyResponse.data.allowed,
-        policies: policyResponse.data.appliedPolicies,
-        reasons: policyResponse.data.reasons,
-      };
+    if (estimate && reconciliation.overrun) {
+      try {
+        await this.emitAuditSignal({
+          timestamp: new Date().toISOString(),
+          action: 'usage:overrun',
+          principal: estimate.principal,
+          resource: estimate.resourceId,
+          outcome: 'overrun',
+          metadata: { ...reconciliation, threshold: usageOverrunThreshold },
+        });
+      } catch (error) {
+        // Usage is already recorded; only a fail-closed audit stage surfaces the failure
+        if (degradation.audit === 'fail-closed') {
+          throw error;
+        }
+      }
+    }
+
+    return reconciliation;
+  }
+
+  /**
+   * Keep the pre-call estimate of an allowed request for reconciliation by recordUsage
+   */
+  private rememberEstimate(
+    request: GovernanceRequest,
+    estimatedCost?: CostEstimate,
+    price?: ModelPrice,
+    tokenCounters: QuotaCounter[] = []
+  ): void {
+    const context = request.context || {};
+    const { pricePerToken } = context;
+    const estimatedTokens = expectedRequestTokens(context);
+
+    if (this.usageEstimates.size >= MAX_PENDING_ESTIMATES) {
+      const oldest = this.usageEstimates.keys().next().value;
+      if (oldest !== undefined) {
+        this.usageEstimates.delete(oldest);
+      }
+    }
+
+    this.usageEstimates.set(request.requestId, {
+      principal: request.principal,
+      resourceId: request.resourceId,
+      ...(estimatedCost ? { estimatedCost: estimatedCost.amount } : {}),
+      ...(estimatedTokens !== undefined ? { estimatedTokens } : {}),
+      ...(typeof pricePerToken === 'number' ? { pricePerToken } : {}),
+      ...(price ? { price } : {}),
+      ...(tokenCounters.length > 0
+        ? { tokenCounters: tokenCounters.map(({ key, status }) => ({ key, expiresAt: new Date(status.resetsAt) })) }
+        : {}),
+    });
+  }
+
+  /**
+   * Scan a model completion with the guardrails
+   * Findings are audited as a guardrail:completion signal; the completion text itself is never stored.
+   *
+   * @throws Error if guardrails are not enabled, or the audit signal fails and the audit stage is fail-closed
+   */
+  async evaluateCompletion(check: CompletionCheck): Promise<CompletionEvaluation> {
+    if (!this.guardrails) {
+      throw new NotConfiguredError('Completion evaluation failed: guardrails are not enabled');
+    }
 
-      // 2. Correlate cost data via CostOps
-      let costImpact: FinOpsSummary | undefined;
+    const guardrails = this.guardrails.scan(check.completion, 'completion');
+    const allowed = !guardrails.blocked;
+
+    if (guardrails.findings.length > 0) {
       try {
-        const finOpsSummary = await this.getFinOpsSummary(request.resourceId);
-        costImpact = finOpsSummary;
+        await this.emitAuditSignal({
+          timestamp: new Date().toISOString(),
+          action: 'guardrail:completion',
+          principal: check.principal,
+          resource: check.resourceId,
+          outcome: allowed ? 'allowed' : 'denied',
+          metadata: { requestId: check.requestId, guardrails: guardrailAuditMetadata(guardrails) },
+        });
       } catch (error) {
-        // Cost data is supplementary, don't fail the entire request
-        console.warn('Failed to retrieve cost data:', error);
+        if (this.settings.degradation.audit === 'fail-closed') {
+          throw error;
+        }
       }
+    }
 
-      // 3. Aggregate analytics via Analytics Hub
-      const analyticsEvent: AnalyticsEvent = {
-        eventName: 'governance.evaluation',
-        timestamp: new Date(),
-        properties: {
-          requestId: request.requestId,
-          resourceId: request.resourceId,
-          action: request.action,
-          principal: request.principal,
-          allowed: policyResults.allowed,
-        },
-        userId: request.principal,
-      };
+    return { requestId: check.requestId, allowed, guardrails };
+  }
+
+  /**
+   * Keep the obligations of an allowed request until their fulfillment is reported
+   */
+  private rememberObligations(request: GovernanceRequest, obligations: Obligation[]): void {
+    if (this.pendingObligations.size >= MAX_PENDING_OBLIGATIONS) {
+      const oldest = this.pendingObligations.keys().next().value;
+      if (oldest !== undefined) {
+        this.pendingObligations.delete(oldest);
+      }
+    }
+
+    this.pendingObligations.set(request.requestId, {
+      principal: request.principal,
+      resourceId: request.resourceId,
+      obligations,
+      reported: [],
+    });
+  }
+
+  /**
+   * Record whether the caller honoured an obligation of an allowed request
+   * Emits an obligation:fulfilled or obligation:unfulfilled audit signal for the original principal and resource.
+   * Each obligation can be reported once, on the instance that evaluated the request.
+   *
+   * @throws ConflictError if the obligation was already reported
+   * @throws NotFoundError if the obligation is not known
+   * @throws Error if the audit signal cannot be emitted
+   */
+  async reportObligationFulfillment(report: ObligationFulfillment): Promise<void> {
+    const pending = this.pendingObligations.get(report.requestId);
+    const obligation = pending?.obligations.find(({ obligationId }) => obligationId === report.obligationId);
 
-      await this.adapters.analyticsHub.track(analyticsEvent);
+    if (pending?.reported.includes(report.obligationId)) {
+      throw new ConflictError(`Obligation report failed: obligation ${report.obligationId} for request ${report.requestId} was already reported`);
+    }
+    if (!pending || !obligation) {
+      throw new NotFoundError(`Obligation report failed: no outstanding obligation ${report.obligationId} for request ${report.requestId}`);
+    }
 
-      // 4. Generate audit ID and emit audit signal
-      const auditId = `audit-${request.requestId}-${Date.now()}`;
-      const auditSignal: AuditSignal = {
+    const outcome = report.fulfilled ? 'fulfilled' : 'unfulfilled';
+
+    try {
+      await this.emitAuditSignal({
         timestamp: new Date().toISOString(),
-        action: request.action,
-        principal: request.principal,
-        resource: request.resourceId,
-        outcome: policyResults.allowed ? 'allowed' : 'denied',
+        action: `obligation:${outcome}`,
+        principal: pending.principal,
+        resource: pending.resourceId,
+        outcome,
         metadata: {
-          requestId: request.requestId,
-          policies: policyResults.policies,
-          reasons: policyResults.reasons,
+          requestId: report.requestId,
+          obligation,
+          ...(report.details ? { details: report.details } : {}),
         },
-      };
+      });
+    } catch (error) {
+      // Keep the obligation outstanding so the caller can retry
+      throw withContext('Obligation report failed', error);
+    }
 
-      await this.emitAuditSignal(auditSignal);
+    // Fully reported requests stay until evicted, so late duplicates are still recognised
+    this.pendingObligations.set(report.requestId, {
+      ...pending,
+      obligations: pending.obligations.filter((candidate) => candidate !== obligation),
+      reported: [...pending.reported, report.obligationId],
+    });
+  }
 
-      // 5. Return normalized governance decision
-      return {
-        requestId: request.requestId,
-        allowed: policyResults.allowed,
-        policyResults,
-        costImpact,
-        auditId,
-      };
-    } catch (error) {
-      throw new Error(`Governance evaluation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  /**
+   * Evaluate a request with the Policy Engine, cached by principal, action, resource and context hash
+   */
+  private async evaluatePolicy(request: PolicyEvaluationRequest): Promise<PolicyEngineResult> {
+    const key = JSON.stringify([request.principal, request.action, request.resource, hashContext(request.context)]);
+
+    return this.cached(this.cache?.policy, key, async () => {
+      const policyResponse = await this.adapters.policyEngine.evaluatePolicy(request);
+
+      if (!policyResponse.success || !policyResponse.data) {
+        throw new UpstreamError(policyResponse.error || 'Policy evaluation failed');
+      }
+      return policyResponse.data;
+    });
+  }
+
+  /**
+   * Ask the Policy Engine to reload its policies and drop cached policy decisions
+   *
+   * @throws Error if the Policy Engine refresh fails
+   */
+  async refreshPolicies(): Promise<void> {
+    const response = await this.adapters.policyEngine.refreshPolicies();
+
+    if (!response.success) {
+      throw new UpstreamError(`Policy refresh failed: ${response.error || 'Unknown error'}`);
     }
+
+    this.cache?.policy?.clear();
   }
 
   /**
-   * Resolve RBAC context for a principal
-   * Delegates to Config Manager for role mappings
+   * Hit, miss and invalidation counts per cache (undefined when caching is disabled)
    */
-  async resolveRBAC(principal: string): Promise<RBACContext> {
-    try {
-      const rolesConfig = await this.adapters.configManager.getConfig(`rbac.roles.${principal}`);
+  getCacheStats(): Record<CacheName, CacheStats> | undefined {
+    return this.cache?.stats();
+  }
 
-      if (!rolesConfig.success || !rolesConfig.data) {
-        // Return empty context if no roles configured
-        return {
-          principal,
-          roles: [],
-          permissions: [],
-        };
+  /**
+   * Stop the config watches used for live reload and cache invalidation, and background outbox delivery
+   * Changes delivered after dispose are ignored; events still queued stay in the outbox store.
+   */
+  async dispose(): Promise<void> {
+    this.disposed = true;
+    this.outbox?.stop();
+    const watchIds = this.watchIds.splice(0);
+    const cacheWatches = Array.from(this.cacheWatches.values());
+    this.cacheWatches.clear();
+
+    await Promise.all([
+      ...watchIds.map((watchId) => this.adapters.configManager.unwatchConfig(watchId)),
+      ...cacheWatches.map((watch) => this.stopWatch(watch)),
+    ]);
+  }
+
+  /**
+   * Read a config key, recording it as a dependency of the cache entry being built
+   * With live reload, rbac.* keys are served from the in-process copy kept current by watchConfig.
+   *
+   * @param snapshot - Live config to read from, so one RBAC resolution sees a single version of it
+   */
+  private async readConfig(key: string, snapshot: Map<string, ConfigValue> = this.liveConfig): Promise<AdapterResponse<ConfigValue>> {
+    configReads.getStore()?.add(key);
+
+    if (!this.settingsKey || !key.startsWith('rbac.')) {
+      return this.adapters.configManager.getConfig(key);
+    }
+
+    const live = snapshot.get(key);
+    if (live) {
+      return { success: true, data: live };
+    }
+
+    // Only values read while the rbac.* watch is in place can be kept current
+    const watching = await this.ensureLiveWatch();
+    const response = await this.adapters.configManager.getConfig(key);
+    if (watching && this.liveWatching && response.success && response.data && !this.liveConfig.has(key)) {
+      this.liveConfig.set(key, response.data);
+    }
+    return response;
+  }
+
+  /**
+   * Load the live settings key once, before the first evaluation
+   * A failed or invalid load is retried by the next evaluation; a missing key leaves the constructor options in effect.
+   */
+  private ensureLiveSettings(): Promise<void> {
+    const settingsKey = this.settingsKey;
+    if (!settingsKey) {
+      return Promise.resolve();
+    }
+
+    this.settingsLoad ??= (async () => {
+      const watching = await this.ensureLiveWatch();
+      const response = await this.adapters.configManager.getConfig(settingsKey);
+
+      // A change pushed while the key was being read is newer than the response
+      if (response.success && response.data && !this.liveConfig.has(settingsKey)) {
+        this.settings = resolveSettings(this.options, parseGovernanceSettings(response.data.value, settingsKey));
+        if (watching) {
+          this.liveConfig.set(settingsKey, response.data);
+        }
       }
 
-      const roles = (rolesConfig.data.value as { roles?: string[] })?.roles || [];
+      // Without a watch the settings are read again, and the watch retried, by the next evaluation
+      if (!watching) {
+        this.settingsLoad = undefined;
+      }
+    })().catch((error) => {
+      this.settingsLoad = undefined;
+      throw error;
+    });
 
-      // Get permissions for each role
-      const permissionSets = await Promise.all(
-        roles.map(async (role) => {
-          const permConfig = await this.adapters.configManager.getConfig(`rbac.permissions.${role}`);
-          return permConfig.success && permConfig.data
-            ? ((permConfig.data.value as { permissions?: string[] })?.permissions || [])
-            : [];
-        })
-      );
+    return this.settingsLoad;
+  }
 
-      const permissions = Array.from(new Set(permissionSets.flat()));
+  /**
+   * Serve a value from a cache, or load it and cache it with the config keys it read
+   * Failed loads are not cached.
+   */
+  private async cached<T>(cache: TtlCache<unknown> | undefined, key: string, load: () => Promise<T>): Promise<T> {
+    if (!cache) {
+      return load();
+    }
 
-      return {
-        principal,
-        roles,
-        permissions,
-      };
-    } catch (error) {
-      throw new Error(`RBAC resolution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    const hit = cache.get(key) as T | undefined;
+    if (hit !== undefined) {
+      return hit;
     }
+
+    const dependencies = new Set<string>();
+    const value = await configReads.run(dependencies, load);
+    cache.set(key, value, dependencies);
+    this.watchCacheDependencies(dependencies);
+    return value;
   }
 
   /**
-   * Get FinOps summary for a resource
-   * Delegates to CostOps for metrics and forecast
+   * Watch each cache dependency not yet watched; a change invalidates the entries built from it
+   * Keys kept current for live reload are already watched. A failed watch is retried by the next entry that needs it;
+   * until then affected entries still expire by TTL.
    */
-  async getFinOpsSummary(resourceId: string): Promise<FinOpsSummary> {
-    try {
-      const now = new Date();
-      const startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000); // 30 days ago
+  private watchCacheDependencies(keys: Set<string>): void {
+    for (const key of keys) {
+      if (this.disposed || this.cacheWatches.has(key) || this.isLiveKey(key) || !this.cache?.hasDependency(key)) {
+        continue;
+      }
+
+      const watch: Promise<string | undefined> = this.adapters.configManager
+        .watchConfig([key], (changes) => this.onConfigChanged(changes))
+        .then((response) => (response.success && response.data ? response.data.watchId : undefined), () => undefined)
+        .then((watchId) => {
+          if (!watchId && this.cacheWatches.get(key) === watch) {
+            this.cacheWatches.delete(key);
+          }
+          return watchId;
+        });
+      this.cacheWatches.set(key, watch);
+    }
+  }
+
+  /**
+   * Stop watching a config key once no cache entry depends on it
+   */
+  private releaseCacheWatch(key: string): void {
+    const watch = this.cacheWatches.get(key);
+    if (!watch) {
+      return;
+    }
+
+    this.cacheWatches.delete(key);
+    this.stopWatch(watch).catch(() => undefined);
+  }
+
+  private async stopWatch(watch: Promise<string | undefined>): Promise<void> {
+    const watchId = await watch;
+    if (watchId) {
+      await this.adapters.configManager.unwatchConfig(watchId);
+    }
+  }
+
+  /**
+   * Watch the settings key and every rbac.* key with a single watch, established once
+   * Nothing is kept in process until the watch is in place; a failed watch is retried by the next read.
+   *
+   * @returns Whether the watch is in place
+   */
+  private ensureLiveWatch(): Promise<boolean> {
+    const settingsKey = this.settingsKey;
+    if (!settingsKey || this.disposed) {
+      return Promise.resolve(false);
+    }
+
+    this.liveWatch ??= this.adapters.configManager
+      .watchConfig([settingsKey, 'rbac.*'], (changes) => this.onConfigChanged(changes))
+      .then((response) => {
+        if (!response.success || !response.data) {
+          throw new UpstreamError(response.error || 'Config watch failed');
+        }
+        if (this.disposed) {
+          void this.adapters.configManager.unwatchConfig(response.data.watchId);
+          return false;
+        }
+        this.watchIds.push(response.data.watchId);
+        this.liveWatching = true;
+        return true;
+      })
+      .catch(() => {
+        this.liveWatch = undefined;
+        return false;
+      });
+
+    return this.liveWatch;
+  }
+
+  /**
+   * Whether a config key is covered by the live reload watch
+   */
+  private isLiveKey(key: string): boolean {
+    return this.liveWatching && (key === this.settingsKey || key.startsWith('rbac.'));
+  }
+
+  /**
+   * Apply a batch of config changes
+   * Live config and settings are swapped in one step, so an evaluation sees either all of the batch or none of it.
+   * An invalid settings value is rejected and the previous settings stay in effect; a deleted settings key restores
+   * the constructor options. Versions already applied are ignored.
+   */
+  private onConfigChanged(changes: ConfigValue[]): void {
+    if (this.disposed) {
+      return;
+    }
 
-      const [metricsResponse, forecastResponse] = await Promise.all([
-        this.adapters.costOps.getCostMetrics({
-          startDate,
-          endDate: now,
-          services: [resourceId],
-        }),
-        this.adapters.costOps.getForecast({
-          horizon: 30,
-          services: [resourceId],
-        }),
-      ]);
+    const liveConfig = new Map(this.liveConfig);
+    let settings = this.settings;
+    const applied: Array<{ change: ConfigValue; oldVersion?: string; error?: string }> = [];
 
-      if (!metricsResponse.success || !metricsResponse.data) {
-        throw new Error(metricsResponse.error || 'Failed to get cost metrics');
+    for (const change of changes) {
+      if (!this.settingsKey || (change.key !== this.settingsKey && !change.key.startsWith('rbac.'))) {
+        continue;
       }
 
-      if (!forecastResponse.success || !forecastResponse.data) {
-        throw new Error(forecastResponse.error || 'Failed to get cost forecast');
+      const oldVersion = liveConfig.get(change.key)?.version;
+      if (change.deleted ? oldVersion === undefined : oldVersion === change.version) {
+        continue;
+      }
+
+      try {
+        if (change.deleted) {
+          if (change.key === this.settingsKey) {
+            settings = resolveSettings(this.options);
+          }
+          liveConfig.delete(change.key);
+        } else {
+          if (change.key === this.settingsKey) {
+            settings = resolveSettings(this.options, parseGovernanceSettings(change.value, change.key));
+          }
+          liveConfig.set(change.key, change);
+        }
+        applied.push({ change, oldVersion });
+      } catch (error) {
+        applied.push({ change, oldVersion, error: error instanceof Error ? error.message : 'Unknown error' });
       }
+    }
 
-      const currentCost = metricsResponse.data.totalCost;
-      const forecast = forecastResponse.data.projectedCost;
+    this.liveConfig = liveConfig;
+    this.settings = settings;
 
-      // Simple budget status logic
-      const budgetStatus = forecast > currentCost * 1.5 ? 'exceeded' :
-                          forecast > currentCost * 1.2 ? 'warning' :
-                          'within';
+    for (const change of changes) {
+      this.cache?.invalidateDependency(change.key);
+    }
 
-      return {
-        resourceId,
-        currentCost,
-        forecast,
-        budgetStatus,
-      };
-    } catch (error) {
-      throw new Error(`FinOps summary failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    for (const { change, oldVersion, error } of applied) {
+      // Config is already applied; audit failures only affect the audit trail
+      this.emitAuditSignal({
+        timestamp: new Date().toISOString(),
+        action: 'config:change',
+        principal: 'config-manager',
+        resource: change.key,
+        outcome: error ? 'rejected' : 'applied',
+        metadata: {
+          key: change.key,
+          oldVersion,
+          ...(change.deleted ? { deleted: true } : { newVersion: change.version }),
+          ...(error ? { error } : {}),
+        },
+      }).catch(() => undefined);
     }
   }
 
   /**
    * Emit audit signal
-   * Validates signal schema and publishes to Dashboard
+   * Validates the signal schema, appends it to the local audit log when enabled and publishes to Dashboard
+   *
+   * @returns The signal's audit ID
+   */
+  async emitAuditSignal(signal: AuditSignal): Promise<string> {
+    const auditId = createAuditId();
+    await this.publishAuditSignal(signal, auditId);
+    return auditId;
+  }
+
+  /**
+   * Emit several audit signals as one dashboard event
+   * The batch is validated once against the audit.signal.batch.v1 schema; each signal is then its own audit log entry.
+   *
+   * @param auditIds - IDs for the signals, in order (generated when omitted)
+   * @returns The signals' audit IDs
    */
-  async emitAuditSignal(signal: AuditSignal): Promise<void> {
+  async emitAuditSignalBatch(signals: AuditSignal[], auditIds: string[] = signals.map(() => createAuditId())): Promise<string[]> {
     try {
-      // Validate signal schema via Schema Registry
-      const validationResponse = await this.adapters.schemaRegistry.validate('audit.signal.v1', signal);
+      if (auditIds.length !== signals.length) {
+        throw new Error(`expected ${signals.length} audit IDs but got ${auditIds.length}`);
+      }
 
-      if (!validationResponse.success || !validationResponse.data?.valid) {
-        const errors = validationResponse.data?.errors || [];
-        throw new Error(`Audit signal validation failed: ${errors.map(e => e.message).join(', ')}`);
+      const published = signals.map((signal) => this.redact(signal, 'audit'));
+      await this.validateAuditSignal(AUDIT_SIGNAL_BATCH_SCHEMA_ID, { signals: published });
+
+      for (const [index, signal] of signals.entries()) {
+        await this.auditLog?.append(signal, auditIds[index]);
       }
 
+      await this.publishEvent({
+        eventType: 'audit.signal.batch',
+        severity: signals.some((signal) => signal.outcome === 'denied') ? 'warning' : 'info',
+        timestamp: new Date(),
+        details: { signals: published, auditIds },
+      });
+
+      return auditIds;
+    } catch (error) {
+      throw withContext('Audit batch emission failed', error);
+    }
+  }
+
+  /**
+   * Check the local audit log for modified, deleted or reordered entries
+   *
+   * @throws Error if no audit log is configured
+   */
+  async verifyAuditChain(): Promise<AuditChainVerification> {
+    if (!this.auditLog) {
+      throw new NotConfiguredError('Audit verification failed: audit log is not enabled');
+    }
+    return this.auditLog.verify();
+  }
+
+  /**
+   * Strip the principal, resource and metadata from local audit entries older than their retention window
+   * Expired entries stay in the chain, which an audit:retention entry records the change in.
+   *
+   * @param now - Time entries are aged against (defaults to the current time)
+   * @throws Error if no audit log or retention policy is configured, or the store cannot rewrite entries
+   */
+  async applyAuditRetention(now: Date = new Date()): Promise<AuditRetentionResult> {
+    if (!this.auditLog || !this.options.audit?.retention) {
+      throw new NotConfiguredError('Audit retention failed: audit log retention is not enabled');
+    }
+    try {
+      return await this.auditLog.applyRetention(this.options.audit.retention, now);
+    } catch (error) {
+      throw withContext('Audit retention failed', error);
+    }
+  }
+
+  /**
+   * Pseudonymize a principal throughout the local audit log (right to erasure)
+   * Events already published to the Dashboard are not recalled.
+   *
+   * @param requestedBy - Principal recorded on the audit:erasure entry
+   * @throws Error if no audit log is configured or the store cannot rewrite entries
+   */
+  async eraseAuditPrincipal(principal: string, requestedBy: string): Promise<AuditErasureResult> {
+    if (!this.auditLog) {
+      throw new NotConfiguredError('Audit erasure failed: audit log is not enabled');
+    }
+    try {
+      return await this.auditLog.erasePrincipal(principal, requestedBy);
+    } catch (error) {
+      throw withContext('Audit erasure failed', error);
+    }
+  }
+
+  /**
+   * Attempt delivery of every queued dashboard event now, ignoring retry delays
+   * Useful before shutdown or after a Dashboard outage; failures still count towards dead-lettering.
+   *
+   * @throws Error if no outbox is configured or the outbox store fails
+   */
+  async drainOutbox(): Promise<OutboxDrainResult> {
+    if (!this.outbox) {
+      throw new NotConfiguredError('Outbox drain failed: outbox is not enabled');
+    }
+    try {
+      return await this.outbox.drain();
+    } catch (error) {
+      throw withContext('Outbox drain failed', error);
+    }
+  }
+
+  /**
+   * Queue depth, oldest pending event and delivery counters of the outbox
+   *
+   * @throws Error if no outbox is configured
+   */
+  async getOutboxMetrics(): Promise<OutboxMetrics> {
+    if (!this.outbox) {
+      throw new NotConfiguredError('Outbox metrics failed: outbox is not enabled');
+    }
+    return this.outbox.metrics();
+  }
+
+  /**
+   * Query the local audit log by principal, resource, outcome, requestId and time range
+   * Results are in sequence order; pass `nextCursor` back as `cursor` for the next page.
+   *
+   * @throws Error if no audit log is configured or the query is invalid
+   */
+  async queryAudit(query: AuditQuery = {}): Promise<AuditQueryPage> {
+    if (!this.auditLog) {
+      throw new NotConfiguredError('Audit query failed: audit log is not enabled');
+    }
+    try {
+      return await this.auditLog.query(query);
+    } catch (error) {
+      throw withContext('Audit query failed', error);
+    }
+  }
+
+  /**
+   * Export the local audit log as OCSF, CEF or CSV lines, streamed in sequence order
+   *
+   * @throws Error if no audit log is configured, or the format or filters are invalid
+   */
+  exportAudit(format: AuditExportFormat, filters: AuditFilters = {}): AsyncIterable<string> {
+    if (!this.auditLog) {
+      throw new NotConfiguredError('Audit export failed: audit log is not enabled');
+    }
+    try {
+      resolveAuditQuery(filters);
+      return formatAuditEntries(this.auditLog.select(filters), parseAuditExportFormat(format));
+    } catch (error) {
+      throw withContext('Audit export failed', error);
+    }
+  }
+
+  private async publishAuditSignal(signal: AuditSignal, auditId: string): Promise<void> {
+    try {
+      // Only the redacted signal leaves the process
+      const published = this.redact(signal, 'audit');
+
+      // Validate signal schema via Schema Registry, so malformed signals never enter the chain
+      await this.validateAuditSignal(AUDIT_SIGNAL_SCHEMA_ID, published);
+
+      // Record locally before publishing so the signal survives a Dashboard outage
+      await this.auditLog?.append(signal, auditId);
+
       // Publish to Dashboard adapter
-      await this.adapters.dashboard.publishEvent({
+      await this.publishEvent({
         eventType: 'audit.signal',
         severity: signal.outcome === 'denied' ? 'warning' : 'info',
         timestamp: new Date(signal.timestamp),
-        details: signal as unknown as Record<string, unknown>,
+        details: published as unknown as Record<string, unknown>,
+        correlationId: auditId,
       });
     } catch (error) {
-      throw new Error(`Audit signal emission failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw withContext('Audit signal emission failed', error);
+    }
+  }
+
+  /**
+   * @throws ValidationError if the Schema Registry rejects the payload
+   * @throws UpstreamError if the Schema Registry cannot validate it
+   */
+  private async validateAuditSignal(schemaId: string, payload: unknown): Promise<void> {
+    const validationResponse = await this.adapters.schemaRegistry.validate(schemaId, payload);
+
+    const label = schemaId === AUDIT_SIGNAL_BATCH_SCHEMA_ID ? 'Audit batch' : 'Audit signal';
+    if (!validationResponse.success || !validationResponse.data) {
+      throw new UpstreamError(`${label} validation failed: ${validationResponse.error || 'Schema Registry unavailable'}`);
+    }
+    if (!validationResponse.data.valid) {
+      throw new ValidationError(`${label} validation failed: ${validationResponse.data.errors.map(e => e.message).join(', ')}`);
+    }
+  }
+
+  /**
+   * Apply the redaction rules for a target to a copy of an outgoing payload
+   */
+  private redact<T extends object>(value: T, target: RedactionTarget): T {
+    return this.redactor ? this.redactor.redact(value, target) : value;
+  }
+
+  /**
+   * Send an event to the Dashboard, through the outbox when one is configured
+   * With an outbox, the event only has to be queued; delivery failures are retried in the background.
+   */
+  private async publishEvent(event: GovernanceEvent): Promise<void> {
+    if (this.outbox) {
+      await this.outbox.enqueue(event);
+      return;
+    }
+
+    const publishResponse = await this.adapters.dashboard.publishEvent(event);
+    if (!publishResponse.success) {
+      throw new UpstreamError(publishResponse.error || 'Dashboard publish failed');
     }
   }
 }
@@ -232,6 +2522,6 @@ export class GovernanceCore {
 /**
  * Factory function to create a GovernanceCore instance
  */
-export function createGovernanceCore(adapters: AdapterCollection): GovernanceCore {
-  return new GovernanceCore(adapters);
+export function createGovernanceCore(adapters: AdapterCollection, options?: GovernanceCoreOptions): GovernanceCore {
+  return new GovernanceCore(adapters, options);
 }
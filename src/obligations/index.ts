@@ -0,0 +1,78 @@
+/**
+ * LLM-Governance-Core Obligations
+ *
+ * Parsing of the obligations a policy engine attaches to allowed requests.
+ * Policy engines report them as `conditions.obligations`; callers enforce them and report back.
+ */
+
+import type { Obligation, ObligationType } from '../types';
+
+export const OBLIGATION_TYPES: ObligationType[] = ['max-tokens', 'model-downgrade', 'redact-pii', 'log-prompt'];
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim() !== '');
+}
+
+/**
+ * Validate a list of obligations, assigning `<type>-<n>` ids to entries without an `obligationId`
+ *
+ * @param value - Obligations as reported by a policy engine or written in a policy
+ * @param source - Where the obligations came from, used in error messages
+ * @throws Error if an entry has an unknown type, missing fields or a duplicate id
+ */
+export function parseObligations(value: unknown, source: string): Obligation[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid obligations ${source}: expected a list`);
+  }
+
+  const ids = new Set<string>();
+
+  return value.map((candidate, index) => {
+    const at = `${source}[${index}]`;
+    const obligation = { ...((candidate || {}) as Record<string, unknown>) };
+    const type = obligation.type as ObligationType;
+
+    if (!OBLIGATION_TYPES.includes(type)) {
+      throw new Error(`Invalid obligation ${at}: type must be one of ${OBLIGATION_TYPES.join(', ')}`);
+    }
+
+    switch (type) {
+      case 'max-tokens':
+        if (typeof obligation.maxTokens !== 'number' || !Number.isInteger(obligation.maxTokens) || obligation.maxTokens <= 0) {
+          throw new Error(`Invalid obligation ${at}: maxTokens must be a positive integer`);
+        }
+        break;
+      case 'model-downgrade':
+        if (!isStringList(obligation.models) || obligation.models.length === 0) {
+          throw new Error(`Invalid obligation ${at}: models must be a non-empty list of resource ids`);
+        }
+        break;
+      case 'redact-pii':
+        if (obligation.categories !== undefined && !isStringList(obligation.categories)) {
+          throw new Error(`Invalid obligation ${at}: categories must be a list of strings`);
+        }
+        break;
+      case 'log-prompt':
+        if (obligation.retentionDays !== undefined
+          && (typeof obligation.retentionDays !== 'number' || !Number.isInteger(obligation.retentionDays) || obligation.retentionDays <= 0)) {
+          throw new Error(`Invalid obligation ${at}: retentionDays must be a positive integer`);
+        }
+        break;
+    }
+
+    if (obligation.policyId !== undefined && typeof obligation.policyId !== 'string') {
+      throw new Error(`Invalid obligation ${at}: policyId must be a string`);
+    }
+    if (obligation.obligationId === undefined) {
+      obligation.obligationId = `${type}-${index + 1}`;
+    } else if (typeof obligation.obligationId !== 'string' || obligation.obligationId.trim() === '') {
+      throw new Error(`Invalid obligation ${at}: obligationId must be a non-empty string`);
+    }
+    if (ids.has(obligation.obligationId as string)) {
+      throw new Error(`Invalid obligation ${at}: obligationId "${obligation.obligationId}" is duplicated`);
+    }
+    ids.add(obligation.obligationId as string);
+
+    return obligation as unknown as Obligation;
+  });
+}
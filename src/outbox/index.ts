@@ -0,0 +1,389 @@
+/**
+ * LLM-Governance-Core Outbox
+ *
+ * Queue of dashboard events delivered in the background with retries.
+ * Events sharing a correlationId are delivered in enqueue order; events that keep failing move to a dead-letter store.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+import type { AdapterResponse, GovernanceEvent } from '../adapters';
+import type { OutboxDrainResult, OutboxMetrics } from '../types';
+
+export const DEFAULT_OUTBOX_MAX_ATTEMPTS = 5;
+export const DEFAULT_OUTBOX_RETRY_DELAY_MS = 1000;
+export const DEFAULT_OUTBOX_MAX_RETRY_DELAY_MS = 60_000;
+export const DEFAULT_OUTBOX_POLL_INTERVAL_MS = 1000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A queued event and its delivery state
+ */
+export interface OutboxEntry {
+  id: string;
+  event: GovernanceEvent;
+
+  /** ISO time the event was queued */
+  enqueuedAt: string;
+
+  /** Failed delivery attempts so far */
+  attempts: number;
+
+  /** ISO time before which the event is not retried */
+  nextAttemptAt: string;
+
+  lastError?: string;
+}
+
+/**
+ * An event that exhausted its delivery attempts
+ */
+export interface DeadLetterEntry extends OutboxEntry {
+  deadLetteredAt: string;
+}
+
+export interface OutboxOptions {
+  /** Queue storage (defaults to an InMemoryOutboxStore; use FileOutboxStore to survive restarts) */
+  store?: OutboxStore;
+
+  /** Attempts before an event is dead-lettered (default 5) */
+  maxAttempts?: number;
+
+  /** Delay before the first retry, doubled for each further attempt (default 1000) */
+  retryDelayMs?: number;
+
+  /** Upper bound on the retry delay (default 60000) */
+  maxRetryDelayMs?: number;
+
+  /** How often background delivery looks for due events (default 1000) */
+  pollIntervalMs?: number;
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * Storage for queued and dead-lettered events
+ */
+export interface OutboxStore {
+  /**
+   * Queued entries in enqueue order
+   */
+  pending(): Promise<OutboxEntry[]>;
+
+  add(entry: OutboxEntry): Promise<void>;
+
+  /**
+   * Replace a queued entry after a failed attempt
+   */
+  update(entry: OutboxEntry): Promise<void>;
+
+  /**
+   * Drop a delivered entry
+   */
+  remove(id: string): Promise<void>;
+
+  /**
+   * Drop a queued entry and record it as dead-lettered
+   */
+  deadLetter(entry: DeadLetterEntry): Promise<void>;
+}
+
+/**
+ * Process-local OutboxStore; queued events are lost when the process exits
+ */
+export class InMemoryOutboxStore implements OutboxStore {
+  private entries = new Map<string, OutboxEntry>();
+  private dead: DeadLetterEntry[] = [];
+
+  async pending(): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values(), (entry) => structuredClone(entry));
+  }
+
+  async add(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, structuredClone(entry));
+  }
+
+  async update(entry: OutboxEntry): Promise<void> {
+    if (this.entries.has(entry.id)) {
+      this.entries.set(entry.id, structuredClone(entry));
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  async deadLetter(entry: DeadLetterEntry): Promise<void> {
+    this.entries.delete(entry.id);
+    this.dead.push(structuredClone(entry));
+  }
+
+  /**
+   * Events dead-lettered so far
+   */
+  deadLetters(): DeadLetterEntry[] {
+    return this.dead.map((entry) => structuredClone(entry));
+  }
+}
+
+/**
+ * OutboxStore persisted to a JSON file, with dead letters appended to a JSONL file
+ * The queue file is rewritten atomically on every change, so it suits queues of modest depth.
+ * The files must have a single writer.
+ */
+export class FileOutboxStore implements OutboxStore {
+  private entries?: Map<string, OutboxEntry>;
+  private writes: Promise<unknown> = Promise.resolve();
+  readonly deadLetterFile: string;
+
+  /**
+   * @param filePath - Queue file
+   * @param deadLetterFile - Dead-letter file (defaults to `<filePath>.dead-letter.jsonl`)
+   */
+  constructor(private readonly filePath: string, deadLetterFile?: string) {
+    this.deadLetterFile = deadLetterFile ?? `${filePath}.dead-letter.jsonl`;
+  }
+
+  async pending(): Promise<OutboxEntry[]> {
+    return Array.from((await this.load()).values(), (entry) => structuredClone(entry));
+  }
+
+  add(entry: OutboxEntry): Promise<void> {
+    return this.change((entries) => entries.set(entry.id, structuredClone(entry)));
+  }
+
+  update(entry: OutboxEntry): Promise<void> {
+    return this.change((entries) => entries.has(entry.id) && entries.set(entry.id, structuredClone(entry)));
+  }
+
+  remove(id: string): Promise<void> {
+    return this.change((entries) => entries.delete(id));
+  }
+
+  async deadLetter(entry: DeadLetterEntry): Promise<void> {
+    // Record the dead letter before dropping it from the queue, so a crash in between cannot lose it
+    await fs.promises.mkdir(path.dirname(this.deadLetterFile), { recursive: true });
+    await fs.promises.appendFile(this.deadLetterFile, `${JSON.stringify(entry)}\n`, 'utf8');
+    await this.remove(entry.id);
+  }
+
+  /**
+   * @throws Error if the queue file is not valid JSON
+   */
+  private async load(): Promise<Map<string, OutboxEntry>> {
+    if (!this.entries) {
+      let stored: OutboxEntry[] = [];
+      try {
+        stored = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')) as OutboxEntry[];
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw new Error(`Invalid outbox file ${path.basename(this.filePath)}: ${(error as Error).message}`);
+        }
+      }
+      this.entries ??= new Map(stored.map((entry) => [entry.id, reviveEntry(entry)]));
+    }
+    return this.entries;
+  }
+
+  /**
+   * Apply a change and persist the queue; writes are serialized so the file always holds the latest state
+   */
+  private change(apply: (entries: Map<string, OutboxEntry>) => unknown): Promise<void> {
+    const write = this.writes.then(async () => {
+      const entries = await this.load();
+      apply(entries);
+
+      const temporary = `${this.filePath}.${process.pid}.tmp`;
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(temporary, JSON.stringify(Array.from(entries.values())), 'utf8');
+      await fs.promises.rename(temporary, this.filePath);
+    });
+
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * Restore the Date an event timestamp loses when written as JSON
+ */
+function reviveEntry(entry: OutboxEntry): OutboxEntry {
+  return { ...entry, event: { ...entry.event, timestamp: new Date(entry.event.timestamp) } };
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+/**
+ * Delivers queued events through a publish function
+ * A failed event blocks later events with the same correlationId until it is delivered or dead-lettered;
+ * events without a correlationId are ordered independently.
+ */
+export class Outbox {
+  private store: OutboxStore;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private maxRetryDelayMs: number;
+  private pollIntervalMs: number;
+  private timer?: ReturnType<typeof setInterval>;
+  private running?: Promise<OutboxDrainResult>;
+  private delivered = 0;
+  private failedAttempts = 0;
+  private deadLettered = 0;
+
+  constructor(
+    private readonly publish: (event: GovernanceEvent) => Promise<AdapterResponse<void>>,
+    options: OutboxOptions = {}
+  ) {
+    this.store = options.store ?? new InMemoryOutboxStore();
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_OUTBOX_MAX_ATTEMPTS);
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_OUTBOX_RETRY_DELAY_MS;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? DEFAULT_OUTBOX_MAX_RETRY_DELAY_MS;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_OUTBOX_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Start background delivery, beginning with events left by a previous process
+   * The timer does not keep the process alive.
+   */
+  start(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => this.kick(), this.pollIntervalMs);
+      this.timer.unref();
+      this.kick();
+    }
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Queue an event for delivery
+   *
+   * @returns The outbox entry ID
+   * @throws Error if the store cannot persist the event
+   */
+  async enqueue(event: GovernanceEvent): Promise<string> {
+    const now = new Date().toISOString();
+    const entry: OutboxEntry = { id: `outbox-${randomUUID()}`, event, enqueuedAt: now, attempts: 0, nextAttemptAt: now };
+
+    await this.store.add(entry);
+    if (this.timer) {
+      this.kick();
+    }
+    return entry.id;
+  }
+
+  /**
+   * Attempt every queued event now, ignoring retry delays
+   * Each event gets one attempt; failures still count towards dead-lettering.
+   */
+  async drain(): Promise<OutboxDrainResult> {
+    while (this.running) {
+      await this.running.catch(() => undefined);
+    }
+    return this.run(true);
+  }
+
+  async metrics(): Promise<OutboxMetrics> {
+    const pending = await this.store.pending();
+    const oldest = pending.reduce<string | undefined>(
+      (earliest, entry) => (earliest === undefined || entry.enqueuedAt < earliest ? entry.enqueuedAt : earliest),
+      undefined
+    );
+
+    return {
+      depth: pending.length,
+      ...(oldest ? { oldestEnqueuedAt: oldest, oldestAgeMs: Math.max(0, Date.now() - Date.parse(oldest)) } : {}),
+      delivered: this.delivered,
+      failedAttempts: this.failedAttempts,
+      deadLettered: this.deadLettered,
+    };
+  }
+
+  /**
+   * Deliver due events unless a delivery pass is already running
+   * Background failures (e.g. an unreadable store) are retried on the next poll.
+   */
+  private kick(): void {
+    if (!this.running) {
+      this.run(false).catch(() => undefined);
+    }
+  }
+
+  private run(force: boolean): Promise<OutboxDrainResult> {
+    const pass = this.deliver(force).finally(() => {
+      if (this.running === pass) {
+        this.running = undefined;
+      }
+    });
+    this.running = pass;
+    return pass;
+  }
+
+  private async deliver(force: boolean): Promise<OutboxDrainResult> {
+    const result: OutboxDrainResult = { delivered: 0, failed: 0, deadLettered: 0, pending: 0 };
+    const blocked = new Set<string>();
+    const now = Date.now();
+
+    for (const entry of await this.store.pending()) {
+      const key = entry.event.correlationId ?? entry.id;
+
+      if (blocked.has(key) || (!force && Date.parse(entry.nextAttemptAt) > now)) {
+        blocked.add(key);
+        result.pending++;
+        continue;
+      }
+
+      const error = await this.attempt(entry.event);
+
+      if (error === undefined) {
+        await this.store.remove(entry.id);
+        this.delivered++;
+        result.delivered++;
+        continue;
+      }
+
+      this.failedAttempts++;
+      blocked.add(key);
+      const failed: OutboxEntry = { ...entry, attempts: entry.attempts + 1, lastError: error };
+
+      if (failed.attempts >= this.maxAttempts) {
+        await this.store.deadLetter({ ...failed, deadLetteredAt: new Date().toISOString() });
+        this.deadLettered++;
+        result.deadLettered++;
+      } else {
+        const delay = Math.min(this.maxRetryDelayMs, this.retryDelayMs * 2 ** (failed.attempts - 1));
+        await this.store.update({ ...failed, nextAttemptAt: new Date(Date.now() + delay).toISOString() });
+        result.failed++;
+        result.pending++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Publish one event
+   *
+   * @returns The failure message, or undefined when delivered
+   */
+  private async attempt(event: GovernanceEvent): Promise<string | undefined> {
+    try {
+      const response = await this.publish(event);
+      return response.success ? undefined : response.error || 'Dashboard publish failed';
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+}
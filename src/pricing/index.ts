@@ -0,0 +1,143 @@
+/**
+ * LLM-Governance-Core Pricing
+ *
+ * Model pricing catalog used to turn token counts into cost.
+ * Catalogs live in Config Manager or a local JSON/YAML file; this module only parses and prices.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+import { matchesGlob } from '../glob';
+import type { CostEstimate, ModelPrice } from '../types';
+
+/** Config Manager key read when no other key is configured */
+export const DEFAULT_PRICING_CONFIG_KEY = 'finops.pricing';
+
+/**
+ * Validate a pricing catalog, either a list of prices or an object with a `prices` list
+ *
+ * @param value - Catalog as read from Config Manager or a file
+ * @param source - Config key or file name used in error messages
+ * @throws Error if any entry is not a usable ModelPrice
+ */
+export function parsePricingCatalog(value: unknown, source: string): ModelPrice[] {
+  const entries = Array.isArray(value) ? value : (value as { prices?: unknown } | undefined)?.prices;
+
+  if (!Array.isArray(entries)) {
+    throw new Error(`Invalid pricing catalog ${source}: expected a list of prices`);
+  }
+
+  return entries.map((candidate, index) => {
+    const at = `${source} prices[${index}]`;
+    const price = (candidate || {}) as Record<string, unknown>;
+
+    if (typeof price.resourceId !== 'string' || price.resourceId.trim() === '') {
+      throw new Error(`Invalid pricing catalog ${at}: resourceId must be a non-empty string`);
+    }
+    for (const field of ['inputPricePerToken', 'outputPricePerToken']) {
+      const amount = price[field];
+      if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+        throw new Error(`Invalid pricing catalog ${at}: ${field} must be a non-negative number`);
+      }
+    }
+    if (typeof price.currency !== 'string' || price.currency.trim() === '') {
+      throw new Error(`Invalid pricing catalog ${at}: currency must be a non-empty string`);
+    }
+    for (const field of ['effectiveFrom', 'effectiveTo']) {
+      const date = price[field];
+      if (date !== undefined && (typeof date !== 'string' || Number.isNaN(Date.parse(date)))) {
+        throw new Error(`Invalid pricing catalog ${at}: ${field} must be an ISO date`);
+      }
+    }
+    if (price.effectiveFrom && price.effectiveTo && Date.parse(price.effectiveFrom as string) >= Date.parse(price.effectiveTo as string)) {
+      throw new Error(`Invalid pricing catalog ${at}: effectiveFrom must be before effectiveTo`);
+    }
+
+    return price as unknown as ModelPrice;
+  });
+}
+
+/**
+ * Read a JSON or YAML pricing catalog from disk
+ *
+ * @throws Error if the file cannot be read or is not a valid catalog
+ */
+export async function loadPricingFile(filePath: string): Promise<ModelPrice[]> {
+  const content = await fs.readFile(filePath, 'utf8');
+  const value = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  return parsePricingCatalog(value, path.basename(filePath));
+}
+
+/**
+ * Price in effect for a resource at a given time
+ * Exact resource ids win over globs; among those, the most recently effective price wins.
+ */
+export function findModelPrice(prices: ModelPrice[], resourceId: string, at: Date = new Date()): ModelPrice | undefined {
+  const time = at.getTime();
+  const effective = prices.filter((price) =>
+    matchesGlob(price.resourceId, resourceId)
+    && (!price.effectiveFrom || Date.parse(price.effectiveFrom) <= time)
+    && (!price.effectiveTo || time < Date.parse(price.effectiveTo))
+  );
+
+  const rank = (price: ModelPrice): [number, number] => [
+    price.resourceId === resourceId ? 1 : 0,
+    price.effectiveFrom ? Date.parse(price.effectiveFrom) : -Infinity,
+  ];
+
+  return effective.reduce<ModelPrice | undefined>((best, price) => {
+    if (!best) {
+      return price;
+    }
+    const [exact, from] = rank(price);
+    const [bestExact, bestFrom] = rank(best);
+    return exact > bestExact || (exact === bestExact && from > bestFrom) ? price : best;
+  }, undefined);
+}
+
+/**
+ * Cost of a number of prompt and completion tokens at a price
+ */
+export function tokenCost(price: ModelPrice, promptTokens: number, completionTokens: number): number {
+  return promptTokens * price.inputPricePerToken + completionTokens * price.outputPricePerToken;
+}
+
+/**
+ * Estimated cost of a request from its context, falling back to the catalog price
+ *
+ * In order of precedence:
+ * - `context.estimatedCost` (in `context.currency`, if given)
+ * - `context.expectedTokens` x `context.pricePerToken`
+ * - `context.expectedPromptTokens` / `context.expectedCompletionTokens` at the catalog price;
+ *   a bare `context.expectedTokens` is priced at the higher of the two rates
+ */
+export function estimateRequestCost(context: Record<string, unknown> = {}, price?: ModelPrice): CostEstimate | undefined {
+  const { estimatedCost, expectedTokens, pricePerToken, expectedPromptTokens, expectedCompletionTokens, currency } = context;
+  const contextCurrency = typeof currency === 'string' ? { currency } : {};
+
+  if (typeof estimatedCost === 'number' && Number.isFinite(estimatedCost) && estimatedCost >= 0) {
+    return { amount: estimatedCost, source: 'context', ...contextCurrency };
+  }
+  if (typeof expectedTokens === 'number' && typeof pricePerToken === 'number') {
+    return { amount: Math.max(0, expectedTokens * pricePerToken), source: 'context', ...contextCurrency };
+  }
+  if (!price) {
+    return undefined;
+  }
+
+  const prompt = typeof expectedPromptTokens === 'number' ? expectedPromptTokens : undefined;
+  const completion = typeof expectedCompletionTokens === 'number' ? expectedCompletionTokens : undefined;
+  let amount: number;
+
+  if (prompt !== undefined || completion !== undefined) {
+    amount = tokenCost(price, prompt ?? 0, completion ?? 0);
+  } else if (typeof expectedTokens === 'number') {
+    amount = expectedTokens * Math.max(price.inputPricePerToken, price.outputPricePerToken);
+  } else {
+    return undefined;
+  }
+
+  return { amount: Math.max(0, amount), currency: price.currency, source: 'catalog', pricedAs: price.resourceId };
+}
@@ -0,0 +1,138 @@
+/**
+ * LLM-Governance-Core Quotas
+ *
+ * Quota lookup keys, fixed-window arithmetic and counter stores used by the quota stage.
+ * Limits are stored in Config Manager; counters live in a QuotaStore so gateways can share them.
+ */
+
+import type { QuotaLimit, QuotaMetric, QuotaScopeType } from '../types';
+
+const QUOTA_METRICS: QuotaMetric[] = ['requests', 'tokens'];
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/**
+ * Counter storage for quota windows
+ * Implementations backed by shared state (e.g. Redis) let several instances enforce one quota.
+ */
+export interface QuotaStore {
+  /**
+   * Current value of a counter (0 when unknown or expired)
+   */
+  get(key: string): Promise<number>;
+
+  /**
+   * Add to a counter, creating it if needed, and return the new value
+   *
+   * @param expiresAt - When the counter's window ends and it may be discarded
+   */
+  increment(key: string, amount: number, expiresAt: Date): Promise<number>;
+}
+
+/**
+ * Process-local QuotaStore; counters are dropped once their window has ended
+ */
+export class InMemoryQuotaStore implements QuotaStore {
+  private counters = new Map<string, { value: number; expiresAt: number }>();
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    if (!counter || counter.expiresAt <= Date.now()) {
+      return 0;
+    }
+    return counter.value;
+  }
+
+  async increment(key: string, amount: number, expiresAt: Date): Promise<number> {
+    this.purgeExpired();
+    const value = (await this.get(key)) + amount;
+    this.counters.set(key, { value, expiresAt: expiresAt.getTime() });
+    return value;
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Config Manager key holding the quotas for a subject
+ */
+export function quotaConfigKey(scopeType: QuotaScopeType, scopeValue: string): string {
+  return `quotas.${scopeType}.${scopeValue}`;
+}
+
+/**
+ * Validate a quota config value, either a single limit or a list of limits
+ *
+ * @throws Error if any entry is not a usable QuotaLimit
+ */
+export function parseQuotaLimits(value: unknown, key: string): QuotaLimit[] {
+  const entries = Array.isArray(value) ? value : [value];
+
+  return entries.map((candidate, index) => {
+    const at = entries.length > 1 ? `${key}[${index}]` : key;
+    const quota = (candidate || {}) as Record<string, unknown>;
+
+    if (!QUOTA_METRICS.includes(quota.metric as QuotaMetric)) {
+      throw new Error(`Invalid quota ${at}: metric must be one of ${QUOTA_METRICS.join(', ')}`);
+    }
+    if (typeof quota.limit !== 'number' || !Number.isInteger(quota.limit) || quota.limit < 0) {
+      throw new Error(`Invalid quota ${at}: limit must be a non-negative integer`);
+    }
+    if (typeof quota.windowSeconds !== 'number' || !Number.isInteger(quota.windowSeconds) || quota.windowSeconds <= 0) {
+      throw new Error(`Invalid quota ${at}: windowSeconds must be a positive integer`);
+    }
+    if (quota.id !== undefined && (typeof quota.id !== 'string' || quota.id.trim() === '')) {
+      throw new Error(`Invalid quota ${at}: id must be a non-empty string`);
+    }
+    if (quota.perPrincipal !== undefined && typeof quota.perPrincipal !== 'boolean') {
+      throw new Error(`Invalid quota ${at}: perPrincipal must be a boolean`);
+    }
+
+    return quota as unknown as QuotaLimit;
+  });
+}
+
+/**
+ * Fixed window, aligned to the Unix epoch, containing `now` (end is exclusive)
+ */
+export function quotaWindow(windowSeconds: number, now: Date): { start: Date; end: Date } {
+  const windowMs = windowSeconds * 1000;
+  const start = Math.floor(now.getTime() / windowMs) * windowMs;
+  return { start: new Date(start), end: new Date(start + windowMs) };
+}
+
+/**
+ * A caller-supplied token count as a non-negative integer, so an estimate can never lower a shared counter
+ */
+function tokenCount(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.ceil(value)) : undefined;
+}
+
+/**
+ * Tokens a request expects to use, from `context.expectedTokens`
+ * or `context.expectedPromptTokens` + `context.expectedCompletionTokens`
+ * Negative counts are read as 0 and non-finite ones are ignored.
+ */
+export function expectedRequestTokens(context: Record<string, unknown> = {}): number | undefined {
+  const expected = tokenCount(context.expectedTokens);
+  if (expected !== undefined) {
+    return expected;
+  }
+
+  const prompt = tokenCount(context.expectedPromptTokens);
+  const completion = tokenCount(context.expectedCompletionTokens);
+  return prompt !== undefined || completion !== undefined ? (prompt ?? 0) + (completion ?? 0) : undefined;
+}
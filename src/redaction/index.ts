@@ -0,0 +1,199 @@
+/**
+ * LLM-Governance-Core Redaction
+ *
+ * Field-level rules applied to audit signals and analytics events before they leave the process.
+ * The local audit log keeps the original signals; only what is published or tracked is redacted.
+ */
+
+import { createHash, createHmac } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export type RedactionAction = 'drop' | 'hash' | 'mask';
+
+export type RedactionTarget = 'audit' | 'analytics';
+
+export interface RedactionRule {
+  /**
+   * Dot path into the audit signal or analytics event, e.g. "metadata.context.email";
+   * "*" matches any key or array index
+   */
+  path: string;
+
+  /** drop removes the field, hash replaces it with a SHA-256 digest, mask hides all but the last 4 characters of long strings */
+  action: RedactionAction;
+
+  /** Where the rule applies (defaults to both) */
+  targets?: RedactionTarget[];
+}
+
+export interface RedactionOptions {
+  rules: RedactionRule[];
+
+  /** Key for HMAC-SHA256 hashing, so hashed values cannot be confirmed by guessing (plain SHA-256 when unset) */
+  hashKey?: string;
+}
+
+export const REDACTION_ACTIONS: RedactionAction[] = ['drop', 'hash', 'mask'];
+export const REDACTION_TARGETS: RedactionTarget[] = ['audit', 'analytics'];
+
+const MASK_VISIBLE = 4;
+
+/**
+ * Validate redaction options, e.g. as read from a file
+ *
+ * @throws Error if a rule has an empty path, an unknown action or an unknown target
+ */
+export function parseRedactionOptions(value: unknown, source: string): RedactionOptions {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Invalid redaction ${source}: expected an object`);
+  }
+
+  const options = value as Record<string, unknown>;
+
+  if (!Array.isArray(options.rules)) {
+    throw new Error(`Invalid redaction ${source}: rules must be a list`);
+  }
+  if (options.hashKey !== undefined && (typeof options.hashKey !== 'string' || options.hashKey === '')) {
+    throw new Error(`Invalid redaction ${source}: hashKey must be a non-empty string`);
+  }
+
+  options.rules.forEach((candidate, index) => {
+    const at = `${source} rules[${index}]`;
+    const rule = (candidate || {}) as Record<string, unknown>;
+
+    if (typeof rule.path !== 'string' || rule.path.split('.').some((segment) => segment === '')) {
+      throw new Error(`Invalid redaction ${at}: path must be a dot path without empty segments`);
+    }
+    if (!REDACTION_ACTIONS.includes(rule.action as RedactionAction)) {
+      throw new Error(`Invalid redaction ${at}: action must be one of ${REDACTION_ACTIONS.join(', ')}`);
+    }
+    if (rule.targets !== undefined
+      && (!Array.isArray(rule.targets) || rule.targets.some((target) => !REDACTION_TARGETS.includes(target)))) {
+      throw new Error(`Invalid redaction ${at}: targets must be a list of ${REDACTION_TARGETS.join(', ')}`);
+    }
+  });
+
+  return options as unknown as RedactionOptions;
+}
+
+/**
+ * Read JSON or YAML redaction options from disk
+ * Synchronous because options are read once while an entry point starts.
+ *
+ * @throws Error if the file cannot be read or is not valid
+ */
+export function readRedactionFile(filePath: string): RedactionOptions {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const value = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  return parseRedactionOptions(value, path.basename(filePath));
+}
+
+// ============================================================================
+// Redactor
+// ============================================================================
+
+interface CompiledRule {
+  segments: string[];
+  action: RedactionAction;
+}
+
+/**
+ * Applies redaction rules to copies of outgoing payloads
+ */
+export class Redactor {
+  private rules: Record<RedactionTarget, CompiledRule[]>;
+  private hashKey?: string;
+
+  /**
+   * @throws Error if the options are invalid
+   */
+  constructor(options: RedactionOptions) {
+    parseRedactionOptions(options, 'options');
+    this.hashKey = options.hashKey;
+    this.rules = { audit: [], analytics: [] };
+
+    for (const rule of options.rules) {
+      for (const target of rule.targets ?? REDACTION_TARGETS) {
+        this.rules[target].push({ segments: rule.path.split('.'), action: rule.action });
+      }
+    }
+  }
+
+  /**
+   * Copy a payload with the target's rules applied; the input is not modified
+   * Rules run in order, so a later rule sees the result of earlier ones.
+   */
+  redact<T extends object>(value: T, target: RedactionTarget): T {
+    const rules = this.rules[target];
+    if (rules.length === 0) {
+      return value;
+    }
+
+    // Dates survive structuredClone, unlike a JSON round trip
+    const copy = structuredClone(value) as Record<string, unknown>;
+    for (const rule of rules) {
+      this.apply(copy, rule.segments, rule.action);
+    }
+    return copy as T;
+  }
+
+  private apply(container: unknown, segments: string[], action: RedactionAction): void {
+    if (!container || typeof container !== 'object') {
+      return;
+    }
+
+    const [segment, ...rest] = segments;
+    const record = container as Record<string, unknown>;
+    const keys = segment === '*' ? Object.keys(record) : Object.prototype.hasOwnProperty.call(record, segment) ? [segment] : [];
+
+    for (const key of keys) {
+      if (rest.length > 0) {
+        this.apply(record[key], rest, action);
+      } else if (action === 'drop') {
+        if (Array.isArray(record)) {
+          record[Number(key)] = null;
+        } else {
+          delete record[key];
+        }
+      } else {
+        record[key] = action === 'hash' ? this.hash(record[key]) : mask(record[key]);
+      }
+    }
+  }
+
+  private hash(value: unknown): unknown {
+    if (value === undefined || value === null) {
+      return value;
+    }
+    const input = typeof value === 'string' ? value : JSON.stringify(value);
+    const digest = this.hashKey
+      ? createHmac('sha256', this.hashKey).update(input).digest('hex')
+      : createHash('sha256').update(input).digest('hex');
+    return `sha256:${digest}`;
+  }
+}
+
+/**
+ * Mask every leaf value, keeping the last characters of strings long enough to stay unguessable
+ */
+function mask(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length > MASK_VISIBLE * 2 ? `${'*'.repeat(value.length - MASK_VISIBLE)}${value.slice(-MASK_VISIBLE)}` : '*'.repeat(value.length);
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return '*'.repeat(String(value).length);
+  }
+  if (Array.isArray(value)) {
+    return value.map(mask);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mask(item)]));
+  }
+  return value;
+}
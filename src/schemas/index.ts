@@ -0,0 +1,44 @@
+/**
+ * LLM-Governance-Core Schemas
+ *
+ * Canonical JSON Schemas (draft 2020-12) for the governance data contracts.
+ * The .json files ship with the package, so services outside Node.js can validate against the same contracts.
+ */
+
+import type { SchemaDefinition } from '../adapters';
+import auditSignalSchema from './audit.signal.v1.json';
+import auditSignalBatchSchema from './audit.signal.batch.v1.json';
+import governanceEventSchema from './governance-event.json';
+import governanceRequestSchema from './governance.request.v1.json';
+import governanceDecisionSchema from './governance.decision.v1.json';
+
+/** Schema IDs GovernanceCore and its services validate against */
+export const AUDIT_SIGNAL_SCHEMA_ID = 'audit.signal.v1';
+export const AUDIT_SIGNAL_BATCH_SCHEMA_ID = 'audit.signal.batch.v1';
+export const GOVERNANCE_EVENT_SCHEMA_ID = 'governance-event';
+export const GOVERNANCE_REQUEST_SCHEMA_ID = 'governance.request.v1';
+export const GOVERNANCE_DECISION_SCHEMA_ID = 'governance.decision.v1';
+
+/** Version of the built-in schemas */
+export const BUILTIN_SCHEMA_VERSION = '1.0.0';
+
+/**
+ * Every built-in schema as a SchemaDefinition
+ * Returns fresh copies, so callers may modify them.
+ */
+export function builtinSchemas(): SchemaDefinition[] {
+  const schemas: Array<[string, Record<string, unknown>]> = [
+    [AUDIT_SIGNAL_SCHEMA_ID, auditSignalSchema],
+    [AUDIT_SIGNAL_BATCH_SCHEMA_ID, auditSignalBatchSchema],
+    [GOVERNANCE_EVENT_SCHEMA_ID, governanceEventSchema],
+    [GOVERNANCE_REQUEST_SCHEMA_ID, governanceRequestSchema],
+    [GOVERNANCE_DECISION_SCHEMA_ID, governanceDecisionSchema],
+  ];
+
+  return schemas.map(([schemaId, schema]) => ({
+    schemaId,
+    version: BUILTIN_SCHEMA_VERSION,
+    schema: structuredClone(schema),
+    format: 'json-schema',
+  }));
+}
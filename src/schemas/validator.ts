@@ -0,0 +1,396 @@
+/**
+ * LLM-Governance-Core JSON Schema Validator
+ *
+ * Dependency-free validator for the JSON Schema keywords the governance data contracts use.
+ * Errors carry the JSON pointer (RFC 6901) of the offending value. checkJsonSchema rejects keywords the validator
+ * does not apply, so a schema can never look stricter than it is.
+ */
+
+import type { ValidationResult } from '../adapters';
+
+export type SchemaError = ValidationResult['errors'][number];
+
+type Schema = Record<string, unknown>;
+
+const JSON_TYPES = ['null', 'boolean', 'object', 'array', 'number', 'integer', 'string'];
+
+/** Keywords validateJsonSchema applies */
+const VALIDATION_KEYWORDS = [
+  'type', 'enum', 'const', 'properties', 'required', 'additionalProperties', 'items', 'minItems', 'maxItems',
+  'minLength', 'maxLength', 'pattern', 'format', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+  'allOf', 'anyOf', 'oneOf', 'not', '$ref',
+];
+
+/** Keywords that only annotate a schema or hold definitions, so they never change a result */
+const ANNOTATION_KEYWORDS = [
+  '$schema', '$id', '$comment', '$defs', 'definitions', 'title', 'description', 'default', 'examples', 'deprecated',
+  'readOnly', 'writeOnly',
+];
+
+/** RFC 3339 date-time, the format JSON Schema uses for "date-time" */
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:\d{2})$/;
+
+/** Compiled `pattern` of each schema node, so a pattern is not rebuilt for every string it checks */
+const compiledPatterns = new WeakMap<Schema, { pattern: string; regExp: RegExp }>();
+
+function schemaPattern(schema: Schema, pattern: string): RegExp {
+  let compiled = compiledPatterns.get(schema);
+
+  // Recompile if the node's pattern was changed after it was cached
+  if (!compiled || compiled.pattern !== pattern) {
+    compiled = { pattern, regExp: new RegExp(pattern, 'u') };
+    compiledPatterns.set(schema, compiled);
+  }
+  return compiled.regExp;
+}
+
+/**
+ * Append a key or index to a JSON pointer
+ */
+export function appendPointer(pointer: string, key: string | number): string {
+  return `${pointer}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeOf(value) === 'object';
+}
+
+/**
+ * Resolve a local reference such as "#/$defs/signal"
+ */
+function resolveRef(root: Schema, ref: string): Schema | undefined {
+  if (!ref.startsWith('#')) {
+    return undefined;
+  }
+
+  let target: unknown = root;
+  for (const segment of ref.slice(1).split('/').slice(1)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = isObject(target) ? target[key] : undefined;
+  }
+  return isObject(target) || typeof target === 'boolean' ? (target as Schema) : undefined;
+}
+
+/**
+ * Subschemas applied to the same value as a schema, i.e. without descending into the data
+ */
+function inPlaceSubschemas(root: Schema, node: unknown): unknown[] {
+  if (!isObject(node)) {
+    return [];
+  }
+  return [
+    ...(typeof node.$ref === 'string' ? [resolveRef(root, node.$ref)] : []),
+    ...(['allOf', 'anyOf', 'oneOf'] as const).flatMap((keyword) => (Array.isArray(node[keyword]) ? node[keyword] as unknown[] : [])),
+    ...(node.not !== undefined ? [node.not] : []),
+  ];
+}
+
+/**
+ * Whether following a $ref leads back to the schema holding it before any data is consumed (e.g. { "$ref": "#" })
+ */
+function isCircularRef(root: Schema, node: Schema): boolean {
+  const seen = new Set<unknown>();
+  const pending = inPlaceSubschemas(root, node);
+
+  while (pending.length > 0) {
+    const next = pending.pop();
+    if (next === node) {
+      return true;
+    }
+    if (!seen.has(next)) {
+      seen.add(next);
+      pending.push(...inPlaceSubschemas(root, next));
+    }
+  }
+  return false;
+}
+
+/**
+ * Check that a schema can be used for validation: only supported keywords, known types, compilable patterns
+ * and local $refs that resolve and do not loop back on themselves
+ *
+ * @returns Problems found, each with the pointer into the schema
+ */
+export function checkJsonSchema(schema: unknown): SchemaError[] {
+  const errors: SchemaError[] = [];
+
+  if (!isObject(schema)) {
+    return [{ path: '', message: 'schema must be an object' }];
+  }
+
+  const visitMap = (node: unknown, pointer: string): void => {
+    if (!isObject(node)) {
+      errors.push({ path: pointer, message: 'must be an object of schemas' });
+      return;
+    }
+    for (const [key, child] of Object.entries(node)) {
+      visit(child, appendPointer(pointer, key));
+    }
+  };
+
+  const visit = (node: unknown, pointer: string): void => {
+    if (typeof node === 'boolean') {
+      return;
+    }
+    if (!isObject(node)) {
+      errors.push({ path: pointer, message: 'must be a schema (an object or a boolean)' });
+      return;
+    }
+
+    for (const key of Object.keys(node)) {
+      if (!VALIDATION_KEYWORDS.includes(key) && !ANNOTATION_KEYWORDS.includes(key)) {
+        errors.push({ path: appendPointer(pointer, key), message: `unsupported keyword ${key}` });
+      }
+    }
+
+    const types = node.type === undefined ? [] : Array.isArray(node.type) ? node.type : [node.type];
+    if (types.some((type) => !JSON_TYPES.includes(type as string))) {
+      errors.push({ path: appendPointer(pointer, 'type'), message: `type must be one of ${JSON_TYPES.join(', ')}` });
+    }
+    if (node.pattern !== undefined) {
+      try {
+        new RegExp(node.pattern as string, 'u');
+      } catch (error) {
+        errors.push({ path: appendPointer(pointer, 'pattern'), message: (error as Error).message });
+      }
+    }
+    if (node.$ref !== undefined && (typeof node.$ref !== 'string' || !resolveRef(schema, node.$ref))) {
+      errors.push({ path: appendPointer(pointer, '$ref'), message: `cannot resolve ${String(node.$ref)} (only local references are supported)` });
+    } else if (node.$ref !== undefined && isCircularRef(schema, node)) {
+      errors.push({ path: appendPointer(pointer, '$ref'), message: `${String(node.$ref)} refers back to this schema without descending into the data` });
+    }
+
+    // Only keywords whose values are schemas are descended into; the rest hold data or names
+    for (const keyword of ['properties', '$defs', 'definitions'] as const) {
+      if (node[keyword] !== undefined) {
+        visitMap(node[keyword], appendPointer(pointer, keyword));
+      }
+    }
+    for (const keyword of ['additionalProperties', 'items', 'not'] as const) {
+      if (node[keyword] !== undefined) {
+        visit(node[keyword], appendPointer(pointer, keyword));
+      }
+    }
+    for (const keyword of ['allOf', 'anyOf', 'oneOf'] as const) {
+      const list = node[keyword];
+      if (list === undefined) {
+        continue;
+      }
+      if (!Array.isArray(list) || list.length === 0) {
+        errors.push({ path: appendPointer(pointer, keyword), message: 'must be a non-empty list of schemas' });
+        continue;
+      }
+      list.forEach((item, index) => visit(item, appendPointer(appendPointer(pointer, keyword), index)));
+    }
+  };
+
+  visit(schema, '');
+  return errors;
+}
+
+/**
+ * Validate data against a JSON Schema
+ * Supports type, enum, const, properties, required, additionalProperties, items, minItems, maxItems,
+ * minLength, maxLength, pattern, format (date-time), minimum, maximum, exclusiveMinimum, exclusiveMaximum,
+ * allOf, anyOf, oneOf, not and local $ref. A $ref that loops back without descending into the data is reported
+ * rather than followed forever.
+ *
+ * @returns Every violation, with the JSON pointer of the value that failed
+ */
+export function validateJsonSchema(schema: Schema, data: unknown): SchemaError[] {
+  const errors: SchemaError[] = [];
+  validateNode(schema, schema, data, '', errors);
+  return errors;
+}
+
+/**
+ * @param refs - $ref targets already followed for this value, to stop reference loops
+ */
+function validateNode(
+  root: Schema,
+  schema: Schema | boolean,
+  data: unknown,
+  pointer: string,
+  errors: SchemaError[],
+  refs: Set<unknown> = new Set()
+): void {
+  if (schema === true) {
+    return;
+  }
+  if (schema === false) {
+    errors.push({ path: pointer, message: 'is not allowed' });
+    return;
+  }
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(root, schema.$ref);
+    if (target === undefined) {
+      errors.push({ path: pointer, message: `cannot resolve ${schema.$ref}` });
+      return;
+    }
+    if (refs.has(target)) {
+      errors.push({ path: pointer, message: `circular reference ${schema.$ref}` });
+      return;
+    }
+    validateNode(root, target, data, pointer, errors, new Set(refs).add(target));
+  }
+
+  if (schema.type !== undefined) {
+    const types = (Array.isArray(schema.type) ? schema.type : [schema.type]) as string[];
+    if (!types.some((type) => matchesType(data, type))) {
+      errors.push({ path: pointer, message: `must be ${types.join(' or ')}` });
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, data))) {
+    errors.push({ path: pointer, message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}` });
+  }
+  if (schema.const !== undefined && !deepEqual(schema.const, data)) {
+    errors.push({ path: pointer, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof data === 'string') {
+    validateString(schema, data, pointer, errors);
+  } else if (typeof data === 'number') {
+    validateNumber(schema, data, pointer, errors);
+  } else if (Array.isArray(data)) {
+    validateArray(root, schema, data, pointer, errors);
+  } else if (isObject(data)) {
+    validateObject(root, schema, data, pointer, errors);
+  }
+
+  validateCombinators(root, schema, data, pointer, errors, refs);
+}
+
+function validateString(schema: Schema, data: string, pointer: string, errors: SchemaError[]): void {
+  // Length counts code points, as JSON Schema requires
+  const length = Array.from(data).length;
+
+  if (typeof schema.minLength === 'number' && length < schema.minLength) {
+    errors.push({ path: pointer, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+  }
+  if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+    errors.push({ path: pointer, message: `must be at most ${schema.maxLength} characters` });
+  }
+  if (typeof schema.pattern === 'string' && !schemaPattern(schema, schema.pattern).test(data)) {
+    errors.push({ path: pointer, message: `must match pattern ${schema.pattern}` });
+  }
+  if (schema.format === 'date-time' && (!DATE_TIME.test(data) || Number.isNaN(Date.parse(data)))) {
+    errors.push({ path: pointer, message: 'must be an RFC 3339 date-time' });
+  }
+}
+
+function validateNumber(schema: Schema, data: number, pointer: string, errors: SchemaError[]): void {
+  const bounds: Array<[string, (limit: number) => boolean, string]> = [
+    ['minimum', (limit) => data >= limit, '>='],
+    ['maximum', (limit) => data <= limit, '<='],
+    ['exclusiveMinimum', (limit) => data > limit, '>'],
+    ['exclusiveMaximum', (limit) => data < limit, '<'],
+  ];
+
+  for (const [keyword, holds, operator] of bounds) {
+    const limit = schema[keyword];
+    if (typeof limit === 'number' && !holds(limit)) {
+      errors.push({ path: pointer, message: `must be ${operator} ${limit}` });
+    }
+  }
+}
+
+function validateArray(root: Schema, schema: Schema, data: unknown[], pointer: string, errors: SchemaError[]): void {
+  if (typeof schema.minItems === 'number' && data.length < schema.minItems) {
+    errors.push({ path: pointer, message: `must have at least ${schema.minItems} items` });
+  }
+  if (typeof schema.maxItems === 'number' && data.length > schema.maxItems) {
+    errors.push({ path: pointer, message: `must have at most ${schema.maxItems} items` });
+  }
+  if (isObject(schema.items) || typeof schema.items === 'boolean') {
+    data.forEach((item, index) => validateNode(root, schema.items as Schema | boolean, item, appendPointer(pointer, index), errors));
+  }
+}
+
+function validateObject(root: Schema, schema: Schema, data: Record<string, unknown>, pointer: string, errors: SchemaError[]): void {
+  const properties = isObject(schema.properties) ? schema.properties : {};
+
+  // A missing property is reported at the pointer it would have
+  for (const name of Array.isArray(schema.required) ? (schema.required as string[]) : []) {
+    if (data[name] === undefined) {
+      errors.push({ path: appendPointer(pointer, name), message: 'is required' });
+    }
+  }
+
+  for (const [name, value] of Object.entries(data)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (Object.prototype.hasOwnProperty.call(properties, name)) {
+      validateNode(root, properties[name] as Schema | boolean, value, appendPointer(pointer, name), errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path: appendPointer(pointer, name), message: 'is not an allowed property' });
+    } else if (isObject(schema.additionalProperties)) {
+      validateNode(root, schema.additionalProperties, value, appendPointer(pointer, name), errors);
+    }
+  }
+}
+
+function validateCombinators(root: Schema, schema: Schema, data: unknown, pointer: string, errors: SchemaError[], refs: Set<unknown>): void {
+  const passes = (subschema: unknown): boolean => {
+    const found: SchemaError[] = [];
+    validateNode(root, subschema as Schema | boolean, data, pointer, found, refs);
+    return found.length === 0;
+  };
+
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf) {
+      validateNode(root, subschema as Schema | boolean, data, pointer, errors, refs);
+    }
+  }
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some(passes)) {
+    errors.push({ path: pointer, message: 'must match at least one allowed schema' });
+  }
+  if (Array.isArray(schema.oneOf) && schema.oneOf.filter(passes).length !== 1) {
+    errors.push({ path: pointer, message: 'must match exactly one allowed schema' });
+  }
+  if (schema.not !== undefined && passes(schema.not)) {
+    errors.push({ path: pointer, message: 'must not match the excluded schema' });
+  }
+}
+
+function deepEqual(left: unknown, right: unknown): boolean {
+  if (left === right) {
+    return true;
+  }
+  if (typeOf(left) !== typeOf(right) || typeof left !== 'object' || left === null) {
+    return false;
+  }
+  if (Array.isArray(left)) {
+    const other = right as unknown[];
+    return left.length === other.length && left.every((item, index) => deepEqual(item, other[index]));
+  }
+
+  const leftKeys = Object.keys(left as object);
+  const rightObject = right as Record<string, unknown>;
+  return leftKeys.length === Object.keys(rightObject).length
+    && leftKeys.every((key) => deepEqual((left as Record<string, unknown>)[key], rightObject[key]));
+}
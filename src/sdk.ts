@@ -9,13 +9,50 @@
 // Version
 // ============================================================================
 
-export const VERSION = '1.0.0';
+export { VERSION } from './version';
 
 // ============================================================================
 // Core Class and Factory
 // ============================================================================
 
-export { GovernanceCore, createGovernanceCore } from './lib';
+export { GovernanceCore, createGovernanceCore, DEFAULT_DEGRADATION_POLICY, DEFAULT_SETTINGS_CONFIG_KEY } from './lib';
+export type {
+  GovernanceCoreOptions,
+  CostEnforcementOptions,
+  PricingOptions,
+  RBACResolutionOptions,
+  GovernanceBatchOptions,
+  LiveReloadOptions,
+  GovernanceSettingsOverrides,
+  ApprovalOptions,
+  AuditOptions,
+} from './lib';
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+export {
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  UnauthorizedError,
+  NotConfiguredError,
+  UpstreamError,
+  handleGovernanceRequest,
+  handleGovernanceBatch,
+  MAX_BATCH_SIZE,
+  handleRBACResolution,
+  handleFinOpsQuery,
+  handleAuditEmission,
+  handleUsageReport,
+  handleObligationReport,
+  handleCompletionEvaluation,
+  handleAuditQuery,
+  handleAuditErasure,
+  handleAuditRetention,
+  handleOutboxMetrics,
+} from './handlers';
 
 // ============================================================================
 // Core Types
@@ -24,12 +61,174 @@ export { GovernanceCore, createGovernanceCore } from './lib';
 export type {
   GovernanceRequest,
   GovernanceDecision,
+  GovernanceBatchResult,
+  GovernanceOutcome,
   PolicyEvaluationResult,
   FinOpsSummary,
   AuditSignal,
   RBACContext,
+  RoleBinding,
+  GovernanceStage,
+  DegradationMode,
+  DegradationPolicy,
+  DegradationRecord,
+  BudgetDefinition,
+  BudgetPeriod,
+  BudgetScopeType,
+  AppliedBudget,
+  CostEnforcementAction,
+  BudgetViolation,
+  CostEnforcementResult,
+  UsageRecord,
+  UsageReconciliation,
+  ModelPrice,
+  CostEstimate,
+  QuotaScopeType,
+  QuotaMetric,
+  QuotaLimit,
+  QuotaStatus,
+  ApprovalStatus,
+  ApprovalTicket,
+  Obligation,
+  ObligationBase,
+  ObligationType,
+  ObligationFulfillment,
+  GuardrailAction,
+  GuardrailFinding,
+  GuardrailResult,
+  PiiCategory,
+  CompletionCheck,
+  CompletionEvaluation,
+  AuditEntry,
+  AuditChainVerification,
+  AuditQuery,
+  AuditQueryPage,
+  AuditErasureRequest,
+  AuditFilters,
+  AuditRedaction,
+  AuditErasureResult,
+  AuditRetentionResult,
+  OutboxMetrics,
+  OutboxDrainResult,
 } from './types';
 
+// ============================================================================
+// Budgets
+// ============================================================================
+
+export { budgetConfigKey, periodBounds, evaluateBudget } from './budgets';
+export type { BudgetSubjects, BudgetEvaluation } from './budgets';
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+export { GovernanceCache, TtlCache, hashContext } from './cache';
+export type { CacheName, CacheOptions, CacheStats } from './cache';
+
+// ============================================================================
+// Quotas
+// ============================================================================
+
+export { InMemoryQuotaStore, quotaConfigKey, parseQuotaLimits, quotaWindow } from './quotas';
+export type { QuotaStore } from './quotas';
+
+// ============================================================================
+// Approvals
+// ============================================================================
+
+export { InMemoryApprovalStore, approverConfigKey, parseApproverRoles, isApprovalExpired } from './approvals';
+export type { ApprovalStore } from './approvals';
+
+// ============================================================================
+// Obligations
+// ============================================================================
+
+export { OBLIGATION_TYPES, parseObligations } from './obligations';
+
+// ============================================================================
+// Guardrails
+// ============================================================================
+
+export { GuardrailScanner, PII_CATEGORIES, parseGuardrailOptions, readGuardrailsFile } from './guardrails';
+export type { GuardrailOptions, PiiGuardrailOptions, BlocklistRule } from './guardrails';
+
+// ============================================================================
+// Audit Log
+// ============================================================================
+
+export {
+  AuditLog,
+  InMemoryAuditStore,
+  GENESIS_HASH,
+  AUDIT_ERASURE_ACTION,
+  AUDIT_RETENTION_ACTION,
+  createAuditId,
+  hashAuditSignal,
+  hashAuditEntry,
+  verifyAuditChain,
+  parseAuditRetentionPolicy,
+  openAuditStore,
+  queryAuditStore,
+  selectAuditEntries,
+} from './audit';
+export type { AuditStore, AuditRetentionPolicy } from './audit';
+export { JsonlAuditStore } from './audit/jsonl';
+export { SqliteAuditStore } from './audit/sqlite';
+export { DEFAULT_AUDIT_QUERY_LIMIT, MAX_AUDIT_QUERY_LIMIT } from './audit/query';
+export {
+  AUDIT_EXPORT_FORMATS,
+  AUDIT_CSV_COLUMNS,
+  exportAudit,
+  formatAuditEntries,
+  parseAuditExportFormat,
+  toOcsfEvent,
+  toCefLine,
+  toCsvRow,
+} from './audit/export';
+export type { AuditExportFormat } from './audit/export';
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+export { Redactor, REDACTION_ACTIONS, REDACTION_TARGETS, parseRedactionOptions, readRedactionFile } from './redaction';
+export type { RedactionOptions, RedactionRule, RedactionAction, RedactionTarget } from './redaction';
+
+// ============================================================================
+// Outbox
+// ============================================================================
+
+export {
+  Outbox,
+  InMemoryOutboxStore,
+  FileOutboxStore,
+  DEFAULT_OUTBOX_MAX_ATTEMPTS,
+  DEFAULT_OUTBOX_RETRY_DELAY_MS,
+  DEFAULT_OUTBOX_MAX_RETRY_DELAY_MS,
+  DEFAULT_OUTBOX_POLL_INTERVAL_MS,
+} from './outbox';
+export type { OutboxStore, OutboxEntry, DeadLetterEntry, OutboxOptions } from './outbox';
+
+// ============================================================================
+// Canonical JSON
+// ============================================================================
+
+export { canonicalJson } from './canonical';
+
+// ============================================================================
+// Pricing
+// ============================================================================
+
+export {
+  DEFAULT_PRICING_CONFIG_KEY,
+  parsePricingCatalog,
+  loadPricingFile,
+  findModelPrice,
+  tokenCost,
+  estimateRequestCost,
+} from './pricing';
+
 // ============================================================================
 // Adapter Interfaces
 // ============================================================================
@@ -43,9 +242,90 @@ export type {
   IConfigManagerAdapter,
   ISchemaRegistryAdapter,
   AdapterConfig,
+  AdapterConfigMap,
+  AdapterFactory,
+  AdapterFactoryRegistry,
   AdapterResponse,
+  RetryPolicy,
 } from './adapters';
 
+export { createAdapterCollection } from './adapters';
+
+// ============================================================================
+// HTTP Adapters
+// ============================================================================
+
+export {
+  HttpTransport,
+  HttpCostOpsAdapter,
+  HttpGovernanceDashboardAdapter,
+  HttpPolicyEngineAdapter,
+  HttpAnalyticsHubAdapter,
+  HttpConfigManagerAdapter,
+  HttpSchemaRegistryAdapter,
+  httpAdapterFactories,
+} from './adapters/http';
+
+// ============================================================================
+// Local Policy Engine
+// ============================================================================
+
+export {
+  LocalPolicyEngineAdapter,
+  evaluatePolicies,
+  validatePolicyDocument,
+  parsePolicyFile,
+} from './adapters/local-policy-engine';
+
+export type {
+  PolicyDocument,
+  PolicyRule,
+  PolicyCondition,
+  PolicyObligation,
+  PolicyEffect,
+  ConditionOperator,
+  LocalPolicyEngineOptions,
+} from './adapters/local-policy-engine';
+
+// ============================================================================
+// Local Schema Registry
+// ============================================================================
+
+export {
+  LocalSchemaRegistryAdapter,
+  compareSchemaVersions,
+  validateSchemaDefinition,
+} from './adapters/local-schema-registry';
+export type { LocalSchemaRegistryOptions } from './adapters/local-schema-registry';
+export {
+  AUDIT_SIGNAL_SCHEMA_ID,
+  AUDIT_SIGNAL_BATCH_SCHEMA_ID,
+  GOVERNANCE_EVENT_SCHEMA_ID,
+  GOVERNANCE_REQUEST_SCHEMA_ID,
+  GOVERNANCE_DECISION_SCHEMA_ID,
+  BUILTIN_SCHEMA_VERSION,
+  builtinSchemas,
+} from './schemas';
+export { validateJsonSchema, checkJsonSchema, appendPointer } from './schemas/validator';
+export type { SchemaError } from './schemas/validator';
+
+// ============================================================================
+// Adapter Resilience
+// ============================================================================
+
+export {
+  CircuitBreaker,
+  withResilience,
+  withResilientAdapters,
+  DEFAULT_IDEMPOTENT_METHODS,
+} from './adapters/resilience';
+
+export type {
+  ResilienceOptions,
+  CircuitBreakerOptions,
+  CircuitState,
+} from './adapters/resilience';
+
 // ============================================================================
 // Services
 // ============================================================================
@@ -3,33 +3,319 @@
  * Minimal server for Cloud Run deployment
  */
 
+import * as crypto from 'crypto';
 import * as http from 'http';
 
+import { createGovernanceCore } from './lib';
+import {
+  ValidationError,
+  UnauthorizedError,
+  NotFoundError,
+  ConflictError,
+  NotConfiguredError,
+  UpstreamError,
+  handleGovernanceRequest,
+  handleGovernanceBatch,
+  handleRBACResolution,
+  handleFinOpsQuery,
+  handleAuditEmission,
+  handleAuditQuery,
+  handleAuditErasure,
+  handleAuditRetention,
+  handleOutboxMetrics,
+  handleUsageReport,
+  handleObligationReport,
+  handleCompletionEvaluation,
+} from './handlers';
+import type { GovernanceCore } from './handlers';
+import { createAdapterCollection } from './adapters';
+import { withResilientAdapters } from './adapters/resilience';
+import type {
+  GovernanceRequest,
+  AuditSignal,
+  AuditQuery,
+  AuditErasureRequest,
+  UsageRecord,
+  ObligationFulfillment,
+  CompletionCheck,
+} from './types';
+import { loadAdapterConfigs, loadAdapterFactories, loadGovernanceOptions, loadResilienceOptions, loadServerOptions } from './config';
+
 const PORT = process.env.PORT || 8080;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+interface RouteResult {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Options for the HTTP server
+ */
+export interface ServerOptions {
+  /**
+   * Bearer tokens accepted on the admin routes (audit erasure and retention), by the identity they authenticate
+   * The admin routes are disabled when no tokens are configured.
+   */
+  adminTokens?: Record<string, string>;
+}
+
+/**
+ * Read and parse a JSON request body
+ * Malformed or oversized bodies are reported as validation errors
+ */
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) {
+        chunks.push(chunk);
+      }
+    });
+
+    req.on('end', () => {
+      if (size > MAX_BODY_BYTES) {
+        reject(new ValidationError('Invalid body: exceeds maximum size of 1MB'));
+        return;
+      }
+
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null'));
+      } catch {
+        reject(new ValidationError('Invalid body: must be valid JSON'));
+      }
+    });
+
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Decode a percent-encoded path segment
+ * Malformed escapes (e.g. "%E0") are reported as validation errors
+ */
+function decodePathSegment(segment: string, name: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new ValidationError(`Invalid ${name}: malformed percent-encoding`);
+  }
+}
+
+/**
+ * Resolve the admin identity whose bearer token the request carries
+ * Every configured token is compared in constant time, so response timing does not reveal a partial match.
+ */
+function authenticateAdmin(req: http.IncomingMessage, options: ServerOptions): string {
+  const tokens = Object.entries(options.adminTokens ?? {});
+  if (tokens.length === 0) {
+    throw new NotConfiguredError('Admin routes are not enabled');
+  }
+
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+  if (!match) {
+    throw new UnauthorizedError('Missing admin bearer token');
+  }
+
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  const presented = digest(match[1]);
+  let identity: string | undefined;
+  for (const [name, token] of tokens) {
+    if (crypto.timingSafeEqual(presented, digest(token)) && identity === undefined) {
+      identity = name;
+    }
+  }
+
+  if (identity === undefined) {
+    throw new UnauthorizedError('Invalid admin bearer token');
+  }
+  return identity;
+}
+
+/**
+ * Dispatch a request to the matching governance handler
+ */
+async function routeRequest(req: http.IncomingMessage, core: GovernanceCore, options: ServerOptions): Promise<RouteResult> {
+  const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
 
-const server = http.createServer((req, res) => {
-  res.setHeader('Content-Type', 'application/json');
+  if (req.method === 'GET' && pathname === '/health') {
+    return {
+      status: 200,
+      body: {
+        status: 'healthy',
+        service: 'governance-core',
+        version: process.env.npm_package_version || 'unknown'
+      },
+    };
+  }
+
+  if (req.method === 'GET' && pathname === '/') {
+    return { status: 200, body: { service: 'llm-governance-core', version: '1.0.0' } };
+  }
+
+  if (req.method === 'POST' && pathname === '/v1/evaluate') {
+    const body = await readJsonBody(req);
+    return { status: 200, body: await handleGovernanceRequest(body as GovernanceRequest, core) };
+  }
+
+  if (req.method === 'POST' && pathname === '/v1/evaluate/batch') {
+    const body = (await readJsonBody(req)) as { requests?: GovernanceRequest[] } | null;
+    return { status: 200, body: { results: await handleGovernanceBatch(body?.requests as GovernanceRequest[], core) } };
+  }
+
+  if (req.method === 'POST' && pathname === '/v1/evaluate/completion') {
+    const body = await readJsonBody(req);
+    return { status: 200, body: await handleCompletionEvaluation(body as CompletionCheck, core) };
+  }
 
-  if (req.method === 'GET' && req.url === '/health') {
-    res.writeHead(200);
-    res.end(JSON.stringify({
-      status: 'healthy',
-      service: 'governance-core',
-      version: process.env.npm_package_version || 'unknown'
-    }));
-    return;
+  if (req.method === 'GET' && pathname.startsWith('/v1/rbac/')) {
+    const principal = decodePathSegment(pathname.slice('/v1/rbac/'.length), 'principal');
+    const scope = searchParams.get('scope') ?? undefined;
+    return { status: 200, body: await handleRBACResolution(principal, core, scope) };
   }
 
-  if (req.method === 'GET' && req.url === '/') {
-    res.writeHead(200);
-    res.end(JSON.stringify({ service: 'llm-governance-core', version: '1.0.0' }));
-    return;
+  if (req.method === 'GET' && pathname.startsWith('/v1/finops/')) {
+    const resourceId = decodePathSegment(pathname.slice('/v1/finops/'.length), 'resourceId');
+    const tags = searchParams.get('tags');
+    const subjects = {
+      principal: searchParams.get('principal') ?? undefined,
+      team: searchParams.get('team') ?? undefined,
+      tags: tags ? tags.split(',').filter(Boolean) : undefined,
+    };
+    return { status: 200, body: await handleFinOpsQuery(resourceId, core, subjects) };
   }
 
-  res.writeHead(404);
-  res.end(JSON.stringify({ error: 'Not found' }));
-});
+  if (req.method === 'GET' && pathname === '/v1/audit') {
+    const query: AuditQuery = {};
+    for (const field of ['principal', 'resource', 'outcome', 'requestId', 'from', 'to', 'cursor'] as const) {
+      const value = searchParams.get(field);
+      if (value !== null) {
+        query[field] = value;
+      }
+    }
+    const limit = searchParams.get('limit');
+    if (limit !== null) {
+      query.limit = Number(limit);
+    }
+    return { status: 200, body: await handleAuditQuery(query, core) };
+  }
+
+  if (req.method === 'POST' && pathname === '/v1/audit') {
+    const body = await readJsonBody(req);
+    const auditId = await handleAuditEmission(body as AuditSignal, core);
+    return { status: 202, body: { emitted: true, auditId } };
+  }
+
+  // Rewrites of the audit log are admin-only; the requester is whoever the token authenticates
+  if (req.method === 'POST' && pathname === '/v1/audit/erasure') {
+    const requestedBy = authenticateAdmin(req, options);
+    const body = await readJsonBody(req);
+    return { status: 200, body: await handleAuditErasure(body as AuditErasureRequest, core, requestedBy) };
+  }
+
+  if (req.method === 'POST' && pathname === '/v1/audit/retention') {
+    authenticateAdmin(req, options);
+    return { status: 200, body: await handleAuditRetention(core) };
+  }
+
+  if (req.method === 'GET' && pathname === '/v1/outbox') {
+    return { status: 200, body: await handleOutboxMetrics(core) };
+  }
+
+  if (req.method === 'POST' && pathname === '/v1/usage') {
+    const body = await readJsonBody(req);
+    return { status: 200, body: await handleUsageReport(body as UsageRecord, core) };
+  }
+
+  if (req.method === 'POST' && pathname === '/v1/obligations') {
+    const body = await readJsonBody(req);
+    await handleObligationReport(body as ObligationFulfillment, core);
+    return { status: 202, body: { reported: true } };
+  }
+
+  return { status: 404, body: { error: 'Not found' } };
+}
+
+/**
+ * Map a handler failure to an HTTP error response
+ * Validation, authentication, lookup and conflict failures are client errors, unconfigured features are 501, adapter failures are 502
+ * and anything else is an internal error
+ */
+function toErrorResult(error: unknown): RouteResult {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof ValidationError) {
+    return { status: 400, body: { error: 'Bad request', message } };
+  }
+  if (error instanceof UnauthorizedError) {
+    return { status: 401, body: { error: 'Unauthorized', message } };
+  }
+  if (error instanceof NotFoundError) {
+    return { status: 404, body: { error: 'Not found', message } };
+  }
+  if (error instanceof ConflictError) {
+    return { status: 409, body: { error: 'Conflict', message } };
+  }
+  if (error instanceof NotConfiguredError) {
+    return { status: 501, body: { error: 'Not implemented', message } };
+  }
+  if (error instanceof UpstreamError) {
+    return { status: 502, body: { error: 'Bad gateway', message } };
+  }
+
+  return { status: 500, body: { error: 'Internal server error', message } };
+}
+
+/**
+ * Create an HTTP server exposing governance routes backed by the given core
+ */
+export function createServer(core: GovernanceCore, options: ServerOptions = {}): http.Server {
+  return http.createServer(async (req, res) => {
+    let result: RouteResult;
+
+    try {
+      result = await routeRequest(req, core, options);
+    } catch (error) {
+      result = toErrorResult(error);
+    }
+
+    res.setHeader('Content-Type', 'application/json');
+    res.writeHead(result.status);
+    res.end(JSON.stringify(result.body));
+  });
+}
+
+/**
+ * Build adapters from environment configuration and start listening
+ */
+async function start(): Promise<void> {
+  const configs = loadAdapterConfigs(process.env);
+  const factories = loadAdapterFactories(process.env);
+
+  const adapters = withResilientAdapters(createAdapterCollection(factories, configs), loadResilienceOptions(process.env, configs));
+
+  const core = createGovernanceCore(adapters, loadGovernanceOptions(process.env));
+  const server = createServer(core, loadServerOptions(process.env));
+
+  server.listen(PORT, () => {
+    console.log(`Server listening on port ${PORT}`);
+  });
+
+  // Stop accepting requests and release config watches before exiting
+  const shutdown = () => {
+    server.close();
+    core.dispose().finally(() => process.exit(0));
+  };
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+}
 
-server.listen(PORT, () => {
-  console.log(`Server listening on port ${PORT}`);
-});
+if (require.main === module) {
+  start().catch((error) => {
+    console.error('Failed to start server:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  });
+}
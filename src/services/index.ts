@@ -13,6 +13,7 @@ import type {
   CostMetrics,
   AdapterResponse,
 } from '../adapters/index.js';
+import { GOVERNANCE_EVENT_SCHEMA_ID } from '../schemas/index.js';
 
 // ============================================================================
 // 1. Policy Coordination Service
@@ -46,7 +47,7 @@ export class AuditAggregationService {
   ): Promise<AdapterResponse<void>> {
     // Validate decision against schema registry
     const validation = await adapters.schemaRegistry.validate(
-      'governance-event',
+      GOVERNANCE_EVENT_SCHEMA_ID,
       decision
     );
 
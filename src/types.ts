@@ -52,8 +52,71 @@ export interface FinOpsSummary {
   /** Forecasted cost for the resource */
   forecast: number;
 
-  /** Status relative to budget (e.g., "within", "warning", "exceeded") */
+  /** Status relative to the applied budget ("within", "warning", "exceeded"), or "unbudgeted" */
   budgetStatus: string;
+
+  /** Budget that applied to this summary (absent when no budget is configured) */
+  budget?: AppliedBudget;
+
+  /** Spend attributed to the budget in its current period */
+  periodCost?: number;
+
+  /** Budget amount left in the current period (negative once exceeded) */
+  remainingBudget?: number;
+
+  /** Percentage of the budget consumed in the current period */
+  percentConsumed?: number;
+
+  /** Projected date (ISO 8601) the budget will be exhausted within the current period, if at all */
+  projectedOverrunDate?: string;
+}
+
+/**
+ * What a budget is attached to
+ */
+export type BudgetScopeType = 'resource' | 'principal' | 'team' | 'tag';
+
+/**
+ * Budget period; periods are calendar-aligned in UTC (weeks start on Monday)
+ */
+export type BudgetPeriod = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+/**
+ * Budget definition stored in Config Manager under `finops.budgets.<scopeType>.<scopeValue>`
+ */
+export interface BudgetDefinition {
+  /** Budget identifier (defaults to the config key) */
+  id?: string;
+
+  /** Budget amount per period */
+  amount: number;
+
+  /** Budget period */
+  period: BudgetPeriod;
+
+  /** Currency of the amount (e.g., "USD") */
+  currency: string;
+
+  /** Fractions of the amount that trigger a warning (e.g., [0.8, 0.9]); defaults to [0.8] */
+  warningThresholds?: number[];
+}
+
+/**
+ * Budget resolved for a FinOps summary
+ */
+export interface AppliedBudget {
+  id: string;
+  scopeType: BudgetScopeType;
+  scopeValue: string;
+  amount: number;
+  period: BudgetPeriod;
+  currency: string;
+
+  /** Start of the current period (ISO 8601) */
+  periodStart: string;
+
+  /** End of the current period (ISO 8601, exclusive) */
+  periodEnd: string;
 }
 
 /**
@@ -92,6 +155,9 @@ export interface GovernanceDecision {
   /** Whether the request is allowed */
   allowed: boolean;
 
+  /** Decision outcome; pending_approval requests are not allowed until an approver signs off */
+  outcome: GovernanceOutcome;
+
   /** Results from policy evaluation */
   policyResults: PolicyEvaluationResult;
 
@@ -100,6 +166,41 @@ export interface GovernanceDecision {
 
   /** Audit identifier for tracking */
   auditId: string;
+
+  /** Estimated cost of the request, from its context or the pricing catalog */
+  estimatedCost?: CostEstimate;
+
+  /** Quotas that apply to the request and what remains of them (present when quotas are enforced) */
+  quotas?: QuotaStatus[];
+
+  /** Budget admission control outcome (present when the request would exceed a budget) */
+  costEnforcement?: CostEnforcementResult;
+
+  /** Approval ticket for requests that need sign-off (present when pending or decided) */
+  approval?: ApprovalTicket;
+
+  /** Conditions the caller must enforce on an allowed request (absent when there are none) */
+  obligations?: Obligation[];
+
+  /** Guardrail scan of context.prompt (present when guardrails are enabled and a prompt was given) */
+  guardrails?: GuardrailResult;
+
+  /** Stages that failed and were handled by a degraded mode (absent when all stages succeeded) */
+  degradations?: DegradationRecord[];
+}
+
+/**
+ * Outcome of a governance decision
+ */
+export type GovernanceOutcome = 'allowed' | 'denied' | 'pending_approval';
+
+/**
+ * Outcome of one request in a batch: a decision, or the error that prevented one
+ */
+export interface GovernanceBatchResult {
+  requestId: string;
+  decision?: GovernanceDecision;
+  error?: string;
 }
 
 /**
@@ -112,9 +213,568 @@ export interface RBACContext {
   /** Roles assigned to the principal */
   roles: string[];
 
-  /** Permissions derived from roles */
+  /** Permissions derived from roles, including inherited ones */
   permissions: string[];
 
+  /** Assigned roles plus every role reached through `inherits` */
+  effectiveRoles?: string[];
+
+  /** Role chain that granted each permission (e.g. ["admin", "editor", "viewer"]) */
+  grantedBy?: Record<string, string[]>;
+
   /** Scope or boundary for the permissions (e.g., org, project, resource) */
   scope?: string;
+
+  /** Role bindings that applied within the scope and where they came from */
+  bindings?: RoleBinding[];
+}
+
+/**
+ * A role granted to a principal, directly or through a group, optionally limited to a scope
+ */
+export interface RoleBinding {
+  /** Bound role */
+  role: string;
+
+  /** Scope path the binding is limited to (e.g., "org:acme/project:alpha"); absent for global bindings */
+  scope?: string;
+
+  /** Origin of the binding: "direct" or "group:<name>" */
+  source: string;
+}
+
+/**
+ * Governance pipeline stages that depend on upstream services
+ */
+export type GovernanceStage = 'rbac' | 'policy' | 'quota' | 'cost' | 'analytics' | 'audit';
+
+/**
+ * How a stage failure affects the decision
+ * - fail-closed: the request is denied
+ * - fail-open: the failure is tolerated (for the policy stage, the request is allowed)
+ * - best-effort: the failure is tolerated; the stage contributes nothing to the decision
+ */
+export type DegradationMode = 'fail-open' | 'fail-closed' | 'best-effort';
+
+/**
+ * Degradation mode per stage
+ * The rbac, policy and quota stages decide the outcome, so they must either fail open or fail closed.
+ */
+export interface DegradationPolicy {
+  rbac: 'fail-open' | 'fail-closed';
+  policy: 'fail-open' | 'fail-closed';
+  quota: 'fail-open' | 'fail-closed';
+  cost: DegradationMode;
+  analytics: DegradationMode;
+  audit: DegradationMode;
+}
+
+/**
+ * Record of a stage that failed and was handled by its degradation mode
+ */
+export interface DegradationRecord {
+  /** Stage that failed */
+  stage: GovernanceStage;
+
+  /** Mode applied to the failure */
+  mode: DegradationMode;
+
+  /** Error message from the failed stage */
+  error: string;
+}
+
+/**
+ * Action taken when a request would push a budget over its amount
+ * - deny: the request is denied
+ * - warn: the request is allowed with a warning reason
+ * - require-approval: the request is not allowed until approved
+ */
+export type CostEnforcementAction = 'deny' | 'warn' | 'require-approval';
+
+/**
+ * A budget the request would exceed
+ */
+export interface BudgetViolation {
+  budgetId: string;
+  scopeType: BudgetScopeType;
+  scopeValue: string;
+  amount: number;
+  currency: string;
+
+  /** Spend so far in the budget period */
+  periodCost: number;
+
+  /** Estimated cost of the request */
+  estimatedCost: number;
+}
+
+/**
+ * Outcome of budget admission control
+ */
+export interface CostEnforcementResult {
+  action: CostEnforcementAction;
+  estimatedCost: number;
+  violations: BudgetViolation[];
+}
+
+/**
+ * Post-call token usage for a previously evaluated request
+ */
+export interface UsageRecord {
+  /** requestId of the original GovernanceRequest */
+  requestId: string;
+
+  /** Model that served the call (e.g., "gpt-4") */
+  model: string;
+
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Actual usage compared with the pre-call estimate
+ */
+export interface UsageReconciliation {
+  requestId: string;
+  model: string;
+
+  /** promptTokens + completionTokens */
+  actualTokens: number;
+
+  /** context.expectedTokens of the original request, if given */
+  estimatedTokens?: number;
+
+  /** Estimated cost of the original request, if it was evaluated by this instance */
+  estimatedCost?: number;
+
+  /** actualTokens x context.pricePerToken, when a price was given */
+  actualCost?: number;
+
+  /** Actual over estimated usage (tokens when estimated, otherwise cost) */
+  overrunRatio?: number;
+
+  /** Whether the ratio crossed the overrun threshold */
+  overrun: boolean;
+}
+
+/**
+ * Token prices for a model resource over an optional effective window
+ */
+export interface ModelPrice {
+  /** Resource id or glob, e.g. "model:gpt-4" or "model:gpt-4*" */
+  resourceId: string;
+
+  /** Price per prompt (input) token */
+  inputPricePerToken: number;
+
+  /** Price per completion (output) token */
+  outputPricePerToken: number;
+
+  currency: string;
+
+  /** ISO date the price takes effect (inclusive) */
+  effectiveFrom?: string;
+
+  /** ISO date the price stops applying (exclusive) */
+  effectiveTo?: string;
+}
+
+/**
+ * Pre-call cost estimate of a governance request
+ */
+export interface CostEstimate {
+  amount: number;
+
+  /** Absent when the caller gave an estimate without a currency */
+  currency?: string;
+
+  /** Whether the estimate came from the request context or the pricing catalog */
+  source: 'context' | 'catalog';
+
+  /** Catalog resourceId (or glob) of the price used */
+  pricedAs?: string;
+}
+
+/**
+ * Subject a quota is configured for
+ */
+export type QuotaScopeType = 'principal' | 'role' | 'resource' | 'action';
+
+/**
+ * What a quota counts: governed requests, or expected (then actual) tokens
+ */
+export type QuotaMetric = 'requests' | 'tokens';
+
+/**
+ * Quota as stored in Config Manager under quotas.<scopeType>.<value>
+ */
+export interface QuotaLimit {
+  /** Identifier reported in denials (defaults to the config key) */
+  id?: string;
+
+  metric: QuotaMetric;
+
+  /** Maximum requests or tokens per window */
+  limit: number;
+
+  /** Fixed window length, aligned to the Unix epoch */
+  windowSeconds: number;
+
+  /** Count each principal separately (defaults to true for principal and role quotas, false otherwise) */
+  perPrincipal?: boolean;
+}
+
+/**
+ * Quota applied to a request
+ */
+export interface QuotaStatus {
+  quotaId: string;
+  scopeType: QuotaScopeType;
+  scopeValue: string;
+  metric: QuotaMetric;
+  limit: number;
+
+  /** Requests or tokens counted in the current window */
+  used: number;
+
+  remaining: number;
+
+  /** ISO time the current window ends */
+  resetsAt: string;
+}
+
+/**
+ * Lifecycle state of an approval ticket; only pending tickets can change state
+ */
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+/**
+ * Request for human sign-off on a governance request
+ */
+export interface ApprovalTicket {
+  ticketId: string;
+
+  /** requestId of the request awaiting approval; re-evaluating it uses the ticket */
+  requestId: string;
+
+  principal: string;
+  resourceId: string;
+  action: string;
+
+  /** Roles allowed to approve or reject, from rbac.approvers.<action> */
+  approverRoles: string[];
+
+  status: ApprovalStatus;
+
+  /** Why approval is required */
+  reasons: string[];
+
+  /** Hash of the request context the ticket was created for; the ticket only applies to that context */
+  contextHash: string;
+
+  /** Estimated cost when the ticket was created; an approval does not cover a higher estimate */
+  estimatedCost?: number;
+
+  /** ISO time the ticket was created */
+  createdAt: string;
+
+  /** ISO time a pending ticket expires */
+  expiresAt: string;
+
+  /** ISO time an approval stops applying to re-evaluations of the request */
+  approvedUntil?: string;
+
+  /** Principal who approved or rejected the ticket */
+  decidedBy?: string;
+
+  /** ISO time the ticket left the pending state */
+  decidedAt?: string;
+
+  comment?: string;
+}
+
+/**
+ * Obligation attached by a policy to an allowed request
+ * - max-tokens: cap the completion at maxTokens
+ * - model-downgrade: serve the request with one of `models`, in order of preference
+ * - redact-pii: redact PII (optionally only `categories`) from the prompt before it is sent
+ * - log-prompt: log the full prompt, keeping it for `retentionDays` when given
+ */
+export type Obligation =
+  | (ObligationBase & { type: 'max-tokens'; maxTokens: number })
+  | (ObligationBase & { type: 'model-downgrade'; models: string[] })
+  | (ObligationBase & { type: 'redact-pii'; categories?: string[] })
+  | (ObligationBase & { type: 'log-prompt'; retentionDays?: number });
+
+export type ObligationType = Obligation['type'];
+
+export interface ObligationBase {
+  /** Identifier used when reporting fulfillment, unique within a decision */
+  obligationId: string;
+
+  /** Policy that attached the obligation, when the policy engine reports one */
+  policyId?: string;
+}
+
+/**
+ * Caller report on whether an obligation was honoured
+ */
+export interface ObligationFulfillment {
+  /** requestId of the decision that carried the obligation */
+  requestId: string;
+
+  obligationId: string;
+
+  fulfilled: boolean;
+
+  /** What was done, e.g. { maxTokens: 512 } or { model: "model:gpt-4o-mini" } */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * What happens when a guardrail detector matches
+ * - redact: matches are replaced in the returned redacted text
+ * - block: the request (or completion) is not allowed
+ * - flag: the finding is only reported
+ */
+export type GuardrailAction = 'redact' | 'block' | 'flag';
+
+/**
+ * Built-in PII detectors
+ */
+export type PiiCategory = 'email' | 'phone' | 'credit-card' | 'api-key';
+
+/**
+ * Matches of one detector; raw matched text is never included
+ */
+export interface GuardrailFinding {
+  /** "pii:<category>" or "blocklist:<id>" */
+  detector: string;
+
+  action: GuardrailAction;
+
+  /** Number of matches */
+  matches: number;
+
+  /** Character offsets of each match in the scanned text (end is exclusive) */
+  locations: Array<{ start: number; end: number }>;
+}
+
+/**
+ * Outcome of a guardrail scan
+ */
+export interface GuardrailResult {
+  target: 'prompt' | 'completion';
+
+  /** Whether a finding with the block action was made */
+  blocked: boolean;
+
+  findings: GuardrailFinding[];
+
+  /** Scanned text with redact matches replaced by [REDACTED:<detector>]; present when something was redacted */
+  redactedText?: string;
+}
+
+/**
+ * Post-call completion to scan with the guardrails
+ */
+export interface CompletionCheck {
+  /** requestId of the original GovernanceRequest */
+  requestId: string;
+
+  principal: string;
+  resourceId: string;
+
+  /** Completion text returned by the model */
+  completion: string;
+}
+
+/**
+ * Guardrail verdict on a completion
+ */
+export interface CompletionEvaluation {
+  requestId: string;
+
+  /** False when a block finding was made */
+  allowed: boolean;
+
+  guardrails: GuardrailResult;
+}
+
+/**
+ * Audit signal as recorded in the hash-chained audit store
+ */
+export interface AuditEntry {
+  /** Collision-free identifier, also returned as GovernanceDecision.auditId */
+  auditId: string;
+
+  /** Position in the chain, starting at 1 with no gaps */
+  sequence: number;
+
+  /** ISO time the entry was appended */
+  recordedAt: string;
+
+  signal: AuditSignal;
+
+  /** Hash of the previous entry (64 zeros for the first entry) */
+  previousHash: string;
+
+  /** SHA-256 over the auditId, sequence, recordedAt, previousHash and the salted hash of the original signal */
+  hash: string;
+
+  /**
+   * Random value hashed with the signal, so the hash the chain keeps cannot confirm guesses about an erased signal
+   * Deleted when the signal is pseudonymized or expired; absent on entries written before salting.
+   */
+  salt?: string;
+
+  /** Present when the signal was pseudonymized or expired after it was appended */
+  redaction?: AuditRedaction;
+}
+
+/**
+ * How a stored signal was changed after it was appended
+ * The chain keeps hashing the original signal; a later erasure or retention record vouches for the new one.
+ */
+export interface AuditRedaction {
+  reason: 'erasure' | 'retention';
+
+  /** Salted SHA-256 of the original signal's canonical JSON */
+  signalHash: string;
+
+  /** auditId of the audit:erasure or audit:retention entry listing this change */
+  recordId: string;
+
+  redactedAt: string;
+}
+
+/**
+ * Request to pseudonymize a principal in the local audit log
+ */
+export interface AuditErasureRequest {
+  principal: string;
+}
+
+/**
+ * Result of pseudonymizing a principal in the local audit log
+ */
+export interface AuditErasureResult {
+  /** Value that replaced the principal */
+  pseudonym: string;
+
+  /** Entries changed */
+  entries: number;
+
+  /** audit:erasure entries recording the change */
+  recordIds: string[];
+}
+
+/**
+ * Result of applying retention windows to the local audit log
+ */
+export interface AuditRetentionResult {
+  /** Entries whose signal content was removed */
+  expired: number;
+
+  /** audit:retention entries recording the change */
+  recordIds: string[];
+}
+
+/**
+ * Result of checking an audit chain
+ */
+export interface AuditChainVerification {
+  /** Whether every entry is intact, in order and linked to its predecessor */
+  valid: boolean;
+
+  /** Entries checked */
+  entries: number;
+
+  /** Hash of the last entry checked */
+  headHash?: string;
+
+  /** First problem found (absent when valid) */
+  error?: {
+    sequence: number;
+    auditId?: string;
+    reason: string;
+  };
+}
+
+/**
+ * Filters for querying the local audit log
+ * Every filter is optional and they are combined with AND; results are in sequence order.
+ */
+export interface AuditQuery {
+  principal?: string;
+  resource?: string;
+  outcome?: string;
+
+  /** Matches signals whose metadata.requestId equals this value */
+  requestId?: string;
+
+  /** Inclusive lower bound on the signal timestamp (ISO 8601) */
+  from?: string;
+
+  /** Exclusive upper bound on the signal timestamp (ISO 8601) */
+  to?: string;
+
+  /** Page size (default 100, at most 1000) */
+  limit?: number;
+
+  /** nextCursor from the previous page */
+  cursor?: string;
+}
+
+/**
+ * Audit query filters without pagination, for reading every matching entry
+ */
+export type AuditFilters = Omit<AuditQuery, 'limit' | 'cursor'>;
+
+/**
+ * One page of audit query results
+ */
+export interface AuditQueryPage {
+  entries: AuditEntry[];
+
+  /** Cursor for the next page (absent on the last page) */
+  nextCursor?: string;
+}
+
+/**
+ * Dashboard outbox state
+ */
+export interface OutboxMetrics {
+  /** Events waiting for delivery */
+  depth: number;
+
+  /** ISO time the oldest waiting event was queued */
+  oldestEnqueuedAt?: string;
+
+  /** Age of the oldest waiting event */
+  oldestAgeMs?: number;
+
+  /** Events delivered by this process */
+  delivered: number;
+
+  /** Failed delivery attempts by this process */
+  failedAttempts: number;
+
+  /** Events this process moved to the dead-letter store */
+  deadLettered: number;
+}
+
+/**
+ * Result of one outbox delivery pass
+ */
+export interface OutboxDrainResult {
+  delivered: number;
+
+  /** Events that failed and will be retried */
+  failed: number;
+
+  deadLettered: number;
+
+  /** Events still queued after the pass */
+  pending: number;
 }
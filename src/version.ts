@@ -0,0 +1,7 @@
+/**
+ * LLM-Governance-Core Version
+ *
+ * Kept in its own module so exporters can stamp it without importing the SDK barrel.
+ */
+
+export const VERSION = '1.0.0';